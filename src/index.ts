@@ -9,25 +9,34 @@ export * from './types';
 // Export all services
 export { PreprocessingService } from './preprocessing';
 export { BoundaryService } from './boundary';
-export { TileService } from './tiles';
+export { TileService, TileProviderRegistry, TileCache, RateLimiter, MBTilesSource, DirectorySource } from './tiles';
 export { StitchingService } from './stitching';
-export { ProjectionService } from './projection';
-export { RenderService } from './render';
+export { ProjectionService, TrackColorizer, MarkerResolver } from './projection';
+export { RenderService, OverlayRenderer, PanelRenderer } from './render';
+export { SimplificationService } from './simplification';
 
 // Export utilities
 export { MercatorUtil } from './utils/mercator';
 export { GeoUtil } from './utils/geo';
-export { PolylineUtil } from './utils/polyline';
+export { PolylineUtil, PolylineDecodeError } from './utils/polyline';
+export { GpxUtil } from './utils/gpx';
+export { GeoJsonUtil } from './utils/geojson';
+export { CoordinateUtil } from './utils/coordinate';
+export { ColorUtil } from './utils/color';
+export { PathUtil } from './utils/path';
+export { StatsUtil } from './utils/stats';
 
 // Main rendering pipeline
-import { TrajmapConfig, RenderResult } from './types';
+import { TrajmapConfig, RenderResult, PreprocessingResult, GeoJsonInput, TrackPoint, TrackInput } from './types';
 import { BoundaryService } from './boundary';
-import { TileService } from './tiles';
+import { TileService, TileProviderRegistry } from './tiles';
 import { StitchingService } from './stitching';
 import { ProjectionService } from './projection';
 import { RenderService } from './render';
+import { SimplificationService } from './simplification';
 import { MercatorUtil } from './utils/mercator';
 import { PreprocessingService } from './preprocessing';
+import { PolylineDecodeError } from './utils/polyline';
 
 /**
  * Main TrajMap class
@@ -42,74 +51,193 @@ export class TrajMap {
     try {
       // Step 1: Preprocessing - decode polyline and validate config
       const preprocessingResult = PreprocessingService.process(polyline, config);
-      const { gpsPoints, config: validatedConfig } = preprocessingResult;
-
-      // Step 2: Boundary determination - calculate bounds and zoom
-      const boundaryResult = BoundaryService.calculateBounds(
-        gpsPoints,
-        validatedConfig.trackRegion,
-        validatedConfig.expansionRegion
-      );
-      const { bounds } = boundaryResult;
-
-      const zoom = TileService.calculateOptimalZoom(bounds);
-      // Step 3: Tile calculation - determine required tiles
-      const tileResult = TileService.calculateTiles(bounds, zoom);
-      const { tileGrid } = tileResult;
-
-      // Step 4: Tile fetching - get tile data
-      const fetchedTileGrid = await TileService.fetchTileGrid(
-        tileGrid,
-        validatedConfig.retina || false
-      );
-
-      // Step 5: Stitching and cropping - create base map image
-      const stitchingResult = await StitchingService.stitchAndCrop(
-        fetchedTileGrid,
-        zoom
-      );
-      const { image: mapImage } = stitchingResult;
-
-      // Step 6: Trajectory projection - draw GPS path on map
-      const imageWidth = stitchingResult.pixelBounds.maxX - stitchingResult.pixelBounds.minX;
-      const imageHeight = stitchingResult.pixelBounds.maxY - stitchingResult.pixelBounds.minY;
-      
-      // Calculate target dimensions based on trackRegion and expansionRegion
-      let targetWidth = validatedConfig.trackRegion.width;
-      let targetHeight = validatedConfig.trackRegion.height;
-      
-      if (validatedConfig.expansionRegion) {
-        const expansion = validatedConfig.expansionRegion;
-        const leftExpansion = (expansion.leftPercent || 0) * targetWidth;
-        const rightExpansion = (expansion.rightPercent || 0) * targetWidth;
-        const upExpansion = (expansion.upPercent || 0) * targetHeight;
-        const downExpansion = (expansion.downPercent || 0) * targetHeight;
-        
-        targetWidth = Math.round(targetWidth + leftExpansion + rightExpansion);
-        targetHeight = Math.round(targetHeight + upExpansion + downExpansion);
+      return await TrajMap.renderPreprocessed(preprocessingResult);
+    } catch (error) {
+      // Keep input errors typed so callers can report the offending offset
+      if (error instanceof PolylineDecodeError) {
+        throw error;
       }
-      
-      const projectionResult = await ProjectionService.projectTrajectory(
-        preprocessingResult.gpsPoints,
-        stitchingResult.image,
-        stitchingResult.bounds,
-        imageWidth,
-        imageHeight,
-        tileResult.zoom,
-        validatedConfig
-      );
-
-      // Step 7: Format final result using RenderService
-      return await RenderService.formatResult(
-        projectionResult,
-        validatedConfig,
-        zoom
-      );
+      throw new Error(`TrajMap rendering failed: ${error}`);
+    }
+  }
+
+  /**
+   * Render already decoded track points to map image
+   * @param points - Track points, optionally with time, elevation and attributes
+   * @param config - Rendering configuration options
+   */
+  static async renderPoints(points: TrackPoint[], config: TrajmapConfig): Promise<RenderResult> {
+    try {
+      // Step 1: Preprocessing - validate points and config
+      const preprocessingResult = PreprocessingService.processPoints(points, config);
+      return await TrajMap.renderPreprocessed(preprocessingResult);
+    } catch (error) {
+      throw new Error(`TrajMap rendering failed: ${error}`);
+    }
+  }
+
+  /**
+   * Render GPX track, route or waypoints to map image
+   * @param gpx - GPX document content
+   * @param config - Rendering configuration options
+   */
+  static async renderGpx(gpx: string | Buffer, config: TrajmapConfig): Promise<RenderResult> {
+    try {
+      // Step 1: Preprocessing - parse GPX and validate config
+      const preprocessingResult = PreprocessingService.processGpx(gpx, config);
+      return await TrajMap.renderPreprocessed(preprocessingResult);
+    } catch (error) {
+      throw new Error(`TrajMap rendering failed: ${error}`);
+    }
+  }
+
+  /**
+   * Render GeoJSON LineString / MultiLineString geometries to map image
+   * @param geojson - Geometry, Feature or FeatureCollection (object or JSON string)
+   * @param config - Rendering configuration options
+   */
+  static async renderGeoJson(geojson: GeoJsonInput | string, config: TrajmapConfig): Promise<RenderResult> {
+    try {
+      // Step 1: Preprocessing - extract lines and validate config
+      const preprocessingResult = PreprocessingService.processGeoJson(geojson, config);
+      return await TrajMap.renderPreprocessed(preprocessingResult);
     } catch (error) {
       throw new Error(`TrajMap rendering failed: ${error}`);
     }
   }
 
+  /**
+   * Render several trajectories on one map, fitted to the union of all tracks
+   * @param tracks - Tracks with their own point source, style, markers and zIndex
+   * @param config - Rendering configuration options, line style fields act as defaults
+   */
+  static async renderTracks(tracks: TrackInput[], config: TrajmapConfig): Promise<RenderResult> {
+    try {
+      // Step 1: Preprocessing - decode every track and validate config
+      const preprocessingResult = PreprocessingService.processTracks(tracks, config);
+      return await TrajMap.renderPreprocessed(preprocessingResult);
+    } catch (error) {
+      if (error instanceof PolylineDecodeError) {
+        throw error;
+      }
+      throw new Error(`TrajMap rendering failed: ${error}`);
+    }
+  }
+
+  /**
+   * Run rendering steps 2-7 on preprocessed GPS points
+   */
+  private static async renderPreprocessed(preprocessingResult: PreprocessingResult): Promise<RenderResult> {
+    const { gpsPoints, tracks, config: validatedConfig } = preprocessingResult;
+
+    // Step 2: Boundary determination - calculate bounds and zoom
+    const fitPoints = validatedConfig.fitAnnotations && validatedConfig.annotations
+      ? [...gpsPoints, ...validatedConfig.annotations]
+      : gpsPoints;
+    const boundaryResult = BoundaryService.calculateBounds(
+      fitPoints,
+      validatedConfig.trackRegion,
+      validatedConfig.expansionRegion
+    );
+    const { bounds } = boundaryResult;
+
+    const tileProvider = TileProviderRegistry.resolve(validatedConfig.tileProvider);
+    const zoom = TileService.calculateOptimalZoom(bounds, undefined, undefined, tileProvider);
+    // Step 3: Tile calculation - determine required tiles
+    const tileResult = TileService.calculateTiles(bounds, zoom);
+    const { tileGrid } = tileResult;
+
+    // Step 4: Tile fetching - get tile data
+    const fetchedTileGrid = await TileService.fetchTileGrid(
+      tileGrid,
+      validatedConfig.retina || false,
+      tileProvider,
+      {
+        cache: validatedConfig.tileCache,
+        retry: validatedConfig.tileRetry,
+        timeout: validatedConfig.tileTimeout,
+        failurePolicy: validatedConfig.tileFailurePolicy,
+        concurrency: validatedConfig.tileConcurrency,
+        requestsPerSecond: validatedConfig.tileRequestsPerSecond,
+        userAgent: validatedConfig.tileUserAgent,
+        headers: validatedConfig.tileHeaders
+      }
+    );
+
+    // Step 5: Stitching and cropping - create base map image
+    const stitchingResult = await StitchingService.stitchAndCrop(
+      fetchedTileGrid,
+      zoom,
+      false,
+      tileProvider.tileSize
+    );
+    const { image: mapImage } = stitchingResult;
+
+    // Step 6: Trajectory projection - draw GPS path on map
+    const imageWidth = stitchingResult.pixelBounds.maxX - stitchingResult.pixelBounds.minX;
+    const imageHeight = stitchingResult.pixelBounds.maxY - stitchingResult.pixelBounds.minY;
+    
+    // Calculate target dimensions based on trackRegion and expansionRegion
+    let targetWidth = validatedConfig.trackRegion.width;
+    let targetHeight = validatedConfig.trackRegion.height;
+    
+    if (validatedConfig.expansionRegion) {
+      const expansion = validatedConfig.expansionRegion;
+      const leftExpansion = (expansion.leftPercent || 0) * targetWidth;
+      const rightExpansion = (expansion.rightPercent || 0) * targetWidth;
+      const upExpansion = (expansion.upPercent || 0) * targetHeight;
+      const downExpansion = (expansion.downPercent || 0) * targetHeight;
+      
+      targetWidth = Math.round(targetWidth + leftExpansion + rightExpansion);
+      targetHeight = Math.round(targetHeight + upExpansion + downExpansion);
+    }
+    
+    // Optional simplification, tolerance is converted from output pixels to 256px world pixels at this zoom
+    let drawTracks = tracks;
+    if (validatedConfig.simplify) {
+      const tileScale = (tileProvider.tileSize ?? 256) / 256;
+      const tolerance = (validatedConfig.simplify.tolerance ?? 1) * imageWidth / targetWidth / tileScale;
+      drawTracks = tracks.map(track => ({
+        ...track,
+        sourceSegments: track.segments,
+        segments: track.segments.map(segment => SimplificationService.simplify(
+          segment,
+          zoom,
+          tolerance,
+          validatedConfig.simplify!.algorithm
+        ))
+      }));
+    }
+
+    const projectionResult = await ProjectionService.projectTracks(
+      drawTracks,
+      stitchingResult.image,
+      stitchingResult.bounds,
+      imageWidth,
+      imageHeight,
+      tileResult.zoom,
+      validatedConfig
+    );
+
+    // Step 7: Format final result using RenderService
+    const reportSimplified = validatedConfig.simplify?.resultPoints === 'simplified';
+    const renderResult = await RenderService.formatResult(
+      reportSimplified ? projectionResult : { ...projectionResult, gpsPoints, tracks },
+      validatedConfig,
+      zoom
+    );
+
+    if (preprocessingResult.cleaning) {
+      renderResult.cleaning = preprocessingResult.cleaning;
+    }
+
+    if (fetchedTileGrid.missingTiles && fetchedTileGrid.missingTiles.length > 0) {
+      renderResult.missingTiles = fetchedTileGrid.missingTiles;
+    }
+
+    return renderResult;
+  }
+
   /**
    * Validate configuration before rendering
    */
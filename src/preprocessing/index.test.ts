@@ -0,0 +1,100 @@
+import { PreprocessingService } from './index';
+import { TrackPoint } from '../types';
+
+const METER = 1 / 111195; // degrees of latitude per meter
+const START = Date.parse('2024-05-01T08:00:00Z');
+
+/**
+ * Straight northbound track, one point per second
+ */
+function walk(count: number, metersPerSecond: number, timed = true): TrackPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lat: 48 + i * metersPerSecond * METER,
+    lng: 11,
+    ...(timed ? { time: new Date(START + i * 1000) } : {})
+  }));
+}
+
+describe('PreprocessingService.clean', () => {
+  it('keeps a clean track untouched', () => {
+    const track = walk(50, 4);
+    const { points, report } = PreprocessingService.clean(track);
+
+    expect(points).toEqual(track);
+    expect(report).toEqual({ removed: 0, outliers: 0, stationary: 0 });
+  });
+
+  it.each([true, false])('drops a bad first fix (timestamps: %s)', timed => {
+    const track = walk(50, 4, timed);
+    const bad = { ...track[0], lat: track[0].lat + 1.2 }; // ~130 km away
+    const { points, report } = PreprocessingService.clean([bad, ...track.slice(1)]);
+
+    expect(points).toEqual(track.slice(1));
+    expect(report.outliers).toBe(1);
+  });
+
+  it.each([true, false])('drops a bad last fix (timestamps: %s)', timed => {
+    const track = walk(50, 4, timed);
+    const last = track[track.length - 1];
+    const { points, report } = PreprocessingService.clean([...track.slice(0, -1), { ...last, lng: last.lng + 1 }]);
+
+    expect(points).toEqual(track.slice(0, -1));
+    expect(report.outliers).toBe(1);
+  });
+
+  it.each([true, false])('drops a spike of two consecutive bad fixes (timestamps: %s)', timed => {
+    const track = walk(50, 4, timed);
+    const spiked = track.map((point, i) => (i === 20 || i === 21 ? { ...point, lng: point.lng + 0.5 } : point));
+    const { points, report } = PreprocessingService.clean(spiked);
+
+    expect(points).toEqual([...track.slice(0, 20), ...track.slice(22)]);
+    expect(report.outliers).toBe(2);
+  });
+
+  it('keeps a long gap with a plausible speed', () => {
+    const track = walk(20, 4);
+    const later = walk(20, 4).map(point => ({
+      lat: point.lat + 0.05, // ~5.5 km further
+      lng: point.lng,
+      time: new Date(point.time!.getTime() + 3600 * 1000)
+    }));
+    const { points } = PreprocessingService.clean([...track, ...later]);
+
+    expect(points).toHaveLength(40);
+  });
+
+  it('keeps slow movement that never dwells', () => {
+    const track = walk(100, 1.4);
+    const { points, report } = PreprocessingService.clean(track);
+
+    expect(points).toHaveLength(100);
+    expect(report.stationary).toBe(0);
+  });
+
+  it('collapses a stationary dwell to its first point', () => {
+    const before = walk(20, 4);
+    const stop = before[before.length - 1];
+    const dwell: TrackPoint[] = Array.from({ length: 60 }, (_, i) => ({
+      lat: stop.lat + ((i * 7) % 5 - 2) * METER,
+      lng: stop.lng,
+      time: new Date(START + (20 + i) * 1000)
+    }));
+    const after = Array.from({ length: 20 }, (_, i) => ({
+      lat: stop.lat + (i + 2) * 4 * METER,
+      lng: stop.lng,
+      time: new Date(START + (80 + i) * 1000)
+    }));
+    const { points, report } = PreprocessingService.clean([...before, ...dwell, ...after], { stationaryRadius: 5 });
+
+    expect(report.outliers).toBe(0);
+    expect(report.stationary).toBeGreaterThanOrEqual(59);
+    expect(points).toContain(stop);
+    expect(points.filter(point => dwell.includes(point))).toHaveLength(0);
+    expect(points[points.length - 1]).toBe(after[after.length - 1]);
+  });
+
+  it('leaves tracks of two points alone', () => {
+    const track = walk(2, 4);
+    expect(PreprocessingService.clean(track).points).toBe(track);
+  });
+});
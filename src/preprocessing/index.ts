@@ -1,11 +1,55 @@
 /**
  * Preprocessing module
- * Handles polyline decoding and configuration setup
+ * Handles polyline/GPX/GeoJSON decoding and configuration setup
  */
 
-import { LatLng, TrajmapConfig, PreprocessingResult } from '../types';
+import * as fs from 'fs';
+import {
+  LatLng,
+  TrackPoint,
+  TrajmapConfig,
+  PreprocessingResult,
+  GeoJsonInput,
+  CleaningOptions,
+  CleaningReport,
+  GapOptions,
+  Annotation,
+  TrackInput,
+  TrackStyle,
+  Track,
+  StatsPanelOptions
+} from '../types';
 import { PolylineUtil } from '../utils/polyline';
+import { GpxUtil } from '../utils/gpx';
+import { GeoJsonUtil } from '../utils/geojson';
+import { CoordinateUtil } from '../utils/coordinate';
 import { ValidationUtil } from '../utils/validation';
+import { GeoUtil } from '../utils/geo';
+import { TileProviderRegistry } from '../tiles/providers';
+import { TrackColorizer } from '../projection/coloring';
+import { MarkerResolver } from '../projection/markers';
+
+// Fields shared by TrackStyle and TrajmapConfig, resolved per track
+const TRACK_STYLE_KEYS: (keyof TrackStyle)[] = [
+  'lineColor',
+  'lineWidth',
+  'lineOpacity',
+  'lineDash',
+  'lineCap',
+  'lineJoin',
+  'lineCasing',
+  'lineShadow',
+  'colorBy',
+  'arrows',
+  'distanceMarkers',
+  'marker'
+];
+
+// Points on each side a point is compared with when looking for outliers
+const OUTLIER_WINDOW = 3;
+
+// Consecutive points within the stationary radius that count as a dwell when there are no timestamps
+const STATIONARY_MIN_POINTS = 10;
 
 /**
  * Preprocessing service
@@ -17,23 +61,99 @@ export class PreprocessingService {
    * @param config - Rendering configuration
    */
   static process(polyline: string, config: TrajmapConfig): PreprocessingResult {
-    // Validate polyline
-    if (!PolylineUtil.validate(polyline)) {
-      throw new Error('Invalid polyline format');
-    }
+    return PreprocessingService.processTracks([{ polyline }], config);
+  }
 
-    // Decode polyline to GPS points
-    const gpsPoints = PolylineUtil.decode(polyline);
-    
-    if (gpsPoints.length === 0) {
-      throw new Error('No GPS points found in polyline');
+  /**
+   * Process GPX document and configuration
+   * @param gpx - GPX document content
+   * @param config - Rendering configuration
+   */
+  static processGpx(gpx: string | Buffer, config: TrajmapConfig): PreprocessingResult {
+    return PreprocessingService.processTracks([{ gpx }], config);
+  }
+
+  /**
+   * Process GeoJSON line geometries and configuration
+   * Every line feature becomes its own track, named by its 'name' property and styled by
+   * its 'stroke' / 'stroke-width' / 'stroke-opacity' properties over the configured line style
+   * @param geojson - GeoJSON object or JSON string
+   * @param config - Rendering configuration
+   */
+  static processGeoJson(geojson: GeoJsonInput | string, config: TrajmapConfig): PreprocessingResult {
+    return PreprocessingService.processTracks([{ geojson }], config);
+  }
+
+  /**
+   * Process already decoded GPS points and configuration
+   * @param gpsPoints - GPS points, metadata (time, elevation, attributes) is preserved
+   * @param config - Rendering configuration
+   */
+  static processPoints(gpsPoints: TrackPoint[], config: TrajmapConfig): PreprocessingResult {
+    return PreprocessingService.processTracks([{ points: gpsPoints }], config);
+  }
+
+  /**
+   * Process several trajectories drawn on one map
+   * Track style fields override the configured line style; cleaning reports are summed over tracks
+   * @param tracks - Tracks, each with exactly one of polyline, points, gpx or geojson
+   * @param config - Rendering configuration
+   */
+  static processTracks(tracks: TrackInput[], config: TrajmapConfig): PreprocessingResult {
+    if (!Array.isArray(tracks) || tracks.length === 0) {
+      throw new Error('At least one track is required');
     }
 
+    // Decode every track first so input errors are reported before configuration errors
+    // A GeoJSON collection decodes to one track per line feature
+    const decoded = tracks.flatMap((track, i) => PreprocessingService.decodeTrack(track, i, config));
+
+    PreprocessingService.validateCoordinateSystem(config.coordinateSystem);
+
     // Validate expansion region if provided
     if (config.expansionRegion) {
       ValidationUtil.validateExpansionRegion(config.expansionRegion);
     }
 
+    // Resolve tile provider early so unknown providers fail before any tile is fetched
+    const tileProvider = TileProviderRegistry.resolve(config.tileProvider);
+
+    if (config.simplify) {
+      const { algorithm, tolerance, resultPoints } = config.simplify;
+      if (algorithm !== undefined && !['douglas-peucker', 'visvalingam'].includes(algorithm)) {
+        throw new Error(`Unknown simplification algorithm: ${algorithm}`);
+      }
+      if (tolerance !== undefined && !(tolerance >= 0)) {
+        throw new Error(`Simplification tolerance must be a non-negative number, got: ${tolerance}`);
+      }
+      if (resultPoints !== undefined && !['original', 'simplified'].includes(resultPoints)) {
+        throw new Error(`Simplification resultPoints must be 'original' or 'simplified', got: ${resultPoints}`);
+      }
+    }
+
+    if (config.gaps) {
+      const { maxTime, maxDistance, connector } = config.gaps;
+      if (maxTime !== undefined && !(maxTime > 0)) {
+        throw new Error(`Gap maxTime must be a positive number of seconds, got: ${maxTime}`);
+      }
+      if (maxDistance !== undefined && !(maxDistance > 0)) {
+        throw new Error(`Gap maxDistance must be a positive number of meters, got: ${maxDistance}`);
+      }
+      if (connector !== undefined && !['none', 'dashed'].includes(connector)) {
+        throw new Error(`Gap connector must be 'none' or 'dashed', got: ${connector}`);
+      }
+    }
+
+    PreprocessingService.validateOverlays(config);
+
+    if (config.panel) {
+      PreprocessingService.validatePanel(config.panel);
+    }
+
+    if (config.attribution === false && tileProvider.attributionRequired) {
+      throw new Error(`Tile provider ${tileProvider.name} requires attribution, it cannot be disabled`);
+    }
+
     // Apply default configuration (no default expansion region)
     const processedConfig: TrajmapConfig = {
       ...config,
@@ -42,14 +162,492 @@ export class PreprocessingService {
       retina: config.retina !== undefined ? config.retina : false
     };
 
+    const sourceSystem = config.coordinateSystem || 'wgs84';
+    const targetSystem = tileProvider.coordinateSystem || 'wgs84';
+
+    // Annotations are converted like track points so they line up with the basemap
+    if (config.annotations) {
+      PreprocessingService.validateAnnotations(config.annotations);
+      processedConfig.annotations = config.annotations.map(annotation =>
+        CoordinateUtil.convert(annotation, sourceSystem, targetSystem)
+      );
+    }
+    let cleaning: CleaningReport | undefined;
+
+    const processedTracks: Track[] = decoded.map(({ track, name, segments: sourceSegments, style }, i) => {
+      const segments = sourceSegments.flatMap(points => {
+        let gpsPoints = points;
+
+        // Convert points to the datum of the basemap so track and tiles line up
+        if (sourceSystem !== targetSystem) {
+          gpsPoints = gpsPoints.map(point => CoordinateUtil.convert(point, sourceSystem, targetSystem));
+        }
+
+        // Remove GPS noise before bounds are calculated from the points
+        if (config.cleaning) {
+          const cleaned = PreprocessingService.clean(gpsPoints, config.cleaning);
+          gpsPoints = cleaned.points;
+          cleaning = {
+            removed: (cleaning?.removed ?? 0) + cleaned.report.removed,
+            outliers: (cleaning?.outliers ?? 0) + cleaned.report.outliers,
+            stationary: (cleaning?.stationary ?? 0) + cleaned.report.stationary
+          };
+        }
+
+        // Split after cleaning so removed outliers do not open spurious gaps
+        return config.gaps ? PreprocessingService.splitGaps(gpsPoints, config.gaps) : [gpsPoints];
+      });
+
+      const resolvedStyle: TrackStyle = {
+        ...PreprocessingService.pickStyle(processedConfig),
+        ...PreprocessingService.pickStyle(style)
+      };
+      PreprocessingService.validateStyle(resolvedStyle);
+
+      const processed: Track = {
+        segments,
+        style: resolvedStyle,
+        zIndex: track.zIndex ?? i
+      };
+      if (name !== undefined) {
+        processed.name = name;
+      }
+
+      return processed;
+    });
+
+    return {
+      gpsPoints: processedTracks.flatMap(track => track.segments.flat()),
+      tracks: processedTracks,
+      config: processedConfig,
+      cleaning
+    };
+  }
+
+  /**
+   * Clean GPS noise: drop speed and jump outliers, then collapse stationary jitter
+   * Outliers are judged against a window of neighbouring points, so no single bad fix
+   * (including the first or last one) becomes the reference for the rest of the track
+   * @param gpsPoints - GPS points, optionally carrying `time`
+   * @param options - Cleaning thresholds
+   */
+  static clean<T extends TrackPoint>(
+    gpsPoints: T[],
+    options: CleaningOptions = {}
+  ): { points: T[]; report: CleaningReport } {
+    if (gpsPoints.length <= 2) {
+      return { points: gpsPoints, report: { removed: 0, outliers: 0, stationary: 0 } };
+    }
+
+    const maxSpeed = options.maxSpeed ?? 83;
+    const maxJump = options.maxJump ?? Math.max(200, 20 * PreprocessingService.medianStep(gpsPoints));
+    const stationaryRadius = options.stationaryRadius ?? 5;
+    const stationaryTime = options.stationaryTime ?? 30;
+
+    // Pass 1: outliers, a point is dropped when it disagrees with most of its neighbours
+    let filtered = gpsPoints.filter((point, i) => {
+      const from = Math.max(i - OUTLIER_WINDOW, 0);
+      const to = Math.min(i + OUTLIER_WINDOW, gpsPoints.length - 1);
+      let neighbours = 0;
+      let conflicts = 0;
+
+      for (let j = from; j <= to; j++) {
+        if (j === i) {
+          continue;
+        }
+        neighbours++;
+        if (PreprocessingService.isConflict(point, gpsPoints[j], maxSpeed, maxJump)) {
+          conflicts++;
+        }
+      }
+
+      return conflicts * 2 <= neighbours;
+    });
+
+    // A track needs two points, give up on outlier removal rather than drop the track
+    if (filtered.length < 2) {
+      filtered = gpsPoints;
+    }
+
+    // Pass 2: stationary jitter, collapse runs that dwell within the radius of their first point
+    let points = filtered;
+    if (stationaryRadius > 0) {
+      points = [];
+      let i = 0;
+      while (i < filtered.length) {
+        let end = i;
+        while (end + 1 < filtered.length &&
+               GeoUtil.calculateDistance(filtered[i], filtered[end + 1]) <= stationaryRadius) {
+          end++;
+        }
+
+        points.push(filtered[i]);
+        if (end > i && PreprocessingService.isDwell(filtered, i, end, stationaryTime)) {
+          // Keep the last point of a trailing cluster so the track still ends where it did
+          if (end === filtered.length - 1) {
+            points.push(filtered[end]);
+          }
+          i = end + 1;
+        } else {
+          i++;
+        }
+      }
+    }
+
+    const outliers = gpsPoints.length - filtered.length;
+    const stationary = filtered.length - points.length;
+
     return {
-      gpsPoints,
-      config: processedConfig
+      points,
+      report: { removed: outliers + stationary, outliers, stationary }
     };
   }
 
   /**
-   * Validate configuration
+   * Whether two points cannot both be real fixes
+   * With timestamps on both only the implied speed counts, so a long gap in time may span a long distance
+   */
+  private static isConflict(point: TrackPoint, other: TrackPoint, maxSpeed: number, maxJump: number): boolean {
+    const distance = GeoUtil.calculateDistance(point, other);
+    const seconds = PreprocessingService.secondsBetween(point, other);
+
+    if (seconds !== undefined && seconds !== 0) {
+      return distance / Math.abs(seconds) > maxSpeed;
+    }
+
+    return distance > maxJump;
+  }
+
+  /**
+   * Whether points start..end stayed in place rather than moved slowly
+   * With timestamps the run must last at least minSeconds, without them it needs
+   * STATIONARY_MIN_POINTS points, far denser than any moving track is sampled
+   */
+  private static isDwell(points: TrackPoint[], start: number, end: number, minSeconds: number): boolean {
+    const seconds = PreprocessingService.secondsBetween(points[start], points[end]);
+    if (seconds !== undefined) {
+      return seconds >= minSeconds;
+    }
+
+    return end - start + 1 >= STATIONARY_MIN_POINTS;
+  }
+
+  /**
+   * Seconds between two points, undefined when either has no timestamp
+   */
+  private static secondsBetween(from: TrackPoint, to: TrackPoint): number | undefined {
+    if (!(from.time instanceof Date) || !(to.time instanceof Date)) {
+      return undefined;
+    }
+
+    return (to.time.getTime() - from.time.getTime()) / 1000;
+  }
+
+  /**
+   * Median distance between consecutive points in meters
+   */
+  private static medianStep(gpsPoints: LatLng[]): number {
+    const steps: number[] = [];
+    for (let i = 1; i < gpsPoints.length; i++) {
+      steps.push(GeoUtil.calculateDistance(gpsPoints[i - 1], gpsPoints[i]));
+    }
+
+    steps.sort((a, b) => a - b);
+    return steps[Math.floor(steps.length / 2)];
+  }
+
+  /**
+   * Split points into segments where consecutive points are too far apart in time or distance
+   * @param gpsPoints - GPS points, time gaps need `time` on both points
+   * @param options - Gap thresholds
+   */
+  static splitGaps<T extends TrackPoint>(gpsPoints: T[], options: GapOptions): T[][] {
+    if (gpsPoints.length === 0) {
+      return [];
+    }
+
+    const segments: T[][] = [[gpsPoints[0]]];
+
+    for (let i = 1; i < gpsPoints.length; i++) {
+      const previous = gpsPoints[i - 1];
+      const point = gpsPoints[i];
+
+      const timeGap = options.maxTime !== undefined && previous.time && point.time &&
+        (point.time.getTime() - previous.time.getTime()) / 1000 > options.maxTime;
+      const distanceGap = options.maxDistance !== undefined &&
+        GeoUtil.calculateDistance(previous, point) > options.maxDistance;
+
+      if (timeGap || distanceGap) {
+        segments.push([]);
+      }
+      segments[segments.length - 1].push(point);
+    }
+
+    return segments;
+  }
+
+  /**
+   * Decode the point source of a track and collect its style overrides
+   * Returns one entry per GeoJSON line feature, a single entry for every other source
+   */
+  private static decodeTrack(
+    track: TrackInput,
+    index: number,
+    config: TrajmapConfig
+  ): { track: TrackInput; name?: string; segments: TrackPoint[][]; style: TrackStyle }[] {
+    const sources = (['polyline', 'points', 'segments', 'gpx', 'geojson'] as const)
+      .filter(key => track[key] !== undefined);
+    if (sources.length !== 1) {
+      throw new Error(`Track ${index} must have exactly one of polyline, points, segments, gpx or geojson`);
+    }
+
+    const style = PreprocessingService.pickStyle(track);
+    let segments: TrackPoint[][];
+
+    switch (sources[0]) {
+      case 'polyline':
+        // Decode and validate polyline, throws PolylineDecodeError with the offending offset
+        segments = [PolylineUtil.decodeStrict(
+          track.polyline!,
+          PreprocessingService.resolvePrecision(track.polyline!, config.polylinePrecision)
+        )];
+        break;
+      case 'gpx':
+        segments = GpxUtil.toSegments(GpxUtil.parse(track.gpx!));
+        if (segments.length === 0) {
+          throw new Error('No GPS points found in GPX');
+        }
+        break;
+      case 'geojson': {
+        const features = GeoJsonUtil.parseFeatures(track.geojson!);
+        if (features.length === 0) {
+          throw new Error('No GPS points found in GeoJSON');
+        }
+
+        return features.map(({ segments: featureSegments, properties }) => ({
+          track,
+          name: typeof properties.name === 'string' ? properties.name : track.name,
+          segments: featureSegments,
+          // Feature style sits between the configuration and explicit track style
+          style: {
+            ...PreprocessingService.pickStyle(GeoJsonUtil.getStyle(properties)),
+            ...PreprocessingService.pickStyle(track)
+          }
+        }));
+      }
+      case 'segments':
+        segments = track.segments!.filter(segment => segment.length > 0);
+        if (segments.length === 0) {
+          throw new Error('No GPS points to process');
+        }
+        break;
+      default:
+        if (track.points!.length === 0) {
+          throw new Error('No GPS points to process');
+        }
+        segments = [track.points!];
+    }
+
+    return [{ track, name: track.name, segments, style }];
+  }
+
+  /**
+   * Copy the defined track style fields of a track or configuration
+   */
+  private static pickStyle(source: TrackStyle): TrackStyle {
+    const style: Record<string, unknown> = {};
+
+    for (const key of TRACK_STYLE_KEYS) {
+      if (source[key] !== undefined) {
+        style[key] = source[key];
+      }
+    }
+
+    return style as TrackStyle;
+  }
+
+  /**
+   * Validate resolved track style
+   */
+  static validateStyle(style: TrackStyle): void {
+    if (style.lineOpacity !== undefined && !(style.lineOpacity >= 0 && style.lineOpacity <= 1)) {
+      throw new Error(`Line opacity must be between 0 and 1, got: ${style.lineOpacity}`);
+    }
+
+    if (style.lineDash !== undefined &&
+        (!Array.isArray(style.lineDash) || !style.lineDash.every(length => length >= 0))) {
+      throw new Error(`Line dash must be an array of non-negative lengths, got: ${JSON.stringify(style.lineDash)}`);
+    }
+
+    if (style.lineCap !== undefined && !['butt', 'round', 'square'].includes(style.lineCap)) {
+      throw new Error(`Unknown line cap: ${style.lineCap}`);
+    }
+
+    if (style.lineJoin !== undefined && !['miter', 'round', 'bevel'].includes(style.lineJoin)) {
+      throw new Error(`Unknown line join: ${style.lineJoin}`);
+    }
+
+    if (style.lineCasing?.width !== undefined && !(style.lineCasing.width >= 0)) {
+      throw new Error(`Line casing width must be a non-negative number, got: ${style.lineCasing.width}`);
+    }
+
+    if (style.lineShadow?.blur !== undefined && !(style.lineShadow.blur >= 0)) {
+      throw new Error(`Line shadow blur must be a non-negative number, got: ${style.lineShadow.blur}`);
+    }
+
+    if (style.arrows) {
+      const { spacing, distance, size } = style.arrows;
+      for (const [name, value] of Object.entries({ spacing, distance, size })) {
+        if (value !== undefined && !(value > 0)) {
+          throw new Error(`Arrow ${name} must be a positive number, got: ${value}`);
+        }
+      }
+    }
+
+    if (style.distanceMarkers) {
+      const { interval, unit, radius } = style.distanceMarkers;
+      if (interval !== undefined && !(interval > 0)) {
+        throw new Error(`Distance marker interval must be a positive number, got: ${interval}`);
+      }
+      if (unit !== undefined && !['km', 'mi'].includes(unit)) {
+        throw new Error(`Distance marker unit must be 'km' or 'mi', got: ${unit}`);
+      }
+      if (radius !== undefined && !(radius > 0)) {
+        throw new Error(`Distance marker radius must be a positive number, got: ${radius}`);
+      }
+    }
+
+    if (style.marker?.start) {
+      MarkerResolver.validate(style.marker.start);
+    }
+
+    if (style.marker?.end) {
+      MarkerResolver.validate(style.marker.end);
+    }
+
+    if (style.colorBy) {
+      TrackColorizer.validateOptions(style.colorBy);
+    }
+  }
+
+  /**
+   * Validate annotation positions and icons
+   */
+  static validateAnnotations(annotations: Annotation[]): void {
+    if (!Array.isArray(annotations)) {
+      throw new Error('Annotations must be an array');
+    }
+
+    annotations.forEach((annotation, i) => {
+      const { lat, lng } = annotation;
+      if (typeof lat !== 'number' || typeof lng !== 'number' || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+        throw new Error(`Invalid annotation ${i} coordinates: lat=${lat}, lng=${lng}`);
+      }
+
+      if (annotation.icon !== undefined) {
+        MarkerResolver.validate(annotation.icon);
+      }
+    });
+  }
+
+  /**
+   * Validate stats panel options and font files
+   */
+  static validatePanel(panel: StatsPanelOptions): void {
+    const fields = ['distance', 'duration', 'pace', 'speed', 'elevationGain'];
+    for (const field of panel.stats ?? []) {
+      if (!fields.includes(field)) {
+        throw new Error(`Unknown panel stat: ${field}`);
+      }
+    }
+
+    const choices: [string, unknown, string[]][] = [
+      ['units', panel.units, ['metric', 'imperial']],
+      ['position', panel.position, ['top', 'bottom']],
+      ['mode', panel.mode, ['overlay', 'extend']],
+      ['layout', panel.layout, ['stacked', 'inline']]
+    ];
+    for (const [name, value, allowed] of choices) {
+      if (value !== undefined && !allowed.includes(value as string)) {
+        throw new Error(`Panel ${name} must be one of ${allowed.join(', ')}, got: ${value}`);
+      }
+    }
+
+    for (const name of ['titleSize', 'textSize'] as const) {
+      const size = panel[name];
+      if (size !== undefined && !(size > 0)) {
+        throw new Error(`Panel ${name} must be a positive number, got: ${size}`);
+      }
+    }
+    if (panel.padding !== undefined && !(panel.padding >= 0)) {
+      throw new Error(`Panel padding must be a non-negative number, got: ${panel.padding}`);
+    }
+
+    for (const font of panel.fonts ?? []) {
+      if (!font.family) {
+        throw new Error(`Panel font ${font.path} needs a family name`);
+      }
+      if (!fs.existsSync(font.path)) {
+        throw new Error(`Panel font file not found: ${font.path}`);
+      }
+    }
+  }
+
+  /**
+   * Validate map furniture overlay options
+   */
+  static validateOverlays(config: TrajmapConfig): void {
+    const corners = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+    const overlays = {
+      scaleBar: typeof config.scaleBar === 'object' ? config.scaleBar : undefined,
+      northArrow: typeof config.northArrow === 'object' ? config.northArrow : undefined,
+      attribution: typeof config.attribution === 'object' ? config.attribution : undefined
+    };
+
+    for (const [name, options] of Object.entries(overlays)) {
+      if (options?.position !== undefined && !corners.includes(options.position)) {
+        throw new Error(`Unknown ${name} position: ${options.position}`);
+      }
+    }
+
+    const fontSize = overlays.attribution?.fontSize;
+    if (fontSize !== undefined && !(fontSize > 0)) {
+      throw new Error(`Attribution fontSize must be a positive number, got: ${fontSize}`);
+    }
+
+    const units = overlays.scaleBar?.units;
+    if (units !== undefined && !['metric', 'imperial'].includes(units)) {
+      throw new Error(`Scale bar units must be 'metric' or 'imperial', got: ${units}`);
+    }
+  }
+
+  /**
+   * Resolve configured polyline precision, detecting it from the data for 'auto'
+   */
+  static resolvePrecision(polyline: string, precision?: number | 'auto'): number {
+    if (precision === 'auto') {
+      if (!polyline || typeof polyline !== 'string') {
+        return PolylineUtil.DEFAULT_PRECISION;
+      }
+      return PolylineUtil.detectPrecision(polyline) ?? PolylineUtil.DEFAULT_PRECISION;
+    }
+
+    const resolved = precision ?? PolylineUtil.DEFAULT_PRECISION;
+    PolylineUtil.validatePrecision(resolved);
+    return resolved;
+  }
+
+  /**
+   * Validate coordinate system option
+   */
+  static validateCoordinateSystem(coordinateSystem?: string): void {
+    if (coordinateSystem !== undefined && !['wgs84', 'gcj02', 'bd09'].includes(coordinateSystem)) {
+      throw new Error(`Unsupported coordinate system: ${coordinateSystem}`);
+    }
+  }
+
+  /**
+   * Validate configuration, including track style, markers and annotation icons
    */
   static validateConfig(config: TrajmapConfig): void {
     if (!config.trackRegion) {
@@ -59,5 +657,11 @@ export class PreprocessingService {
     if (config.trackRegion.width <= 0 || config.trackRegion.height <= 0) {
       throw new Error('Track region dimensions must be positive');
     }
+
+    PreprocessingService.validateStyle(PreprocessingService.pickStyle(config));
+
+    if (config.annotations) {
+      PreprocessingService.validateAnnotations(config.annotations);
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,200 @@
+/**
+ * Data-driven track coloring
+ * Maps speed, pace, elevation or numeric point attributes onto a color ramp
+ */
+
+import { ColorByOptions, RGBA, TrackPoint } from '../types';
+import { ColorUtil } from '../utils/color';
+import { GeoUtil } from '../utils/geo';
+
+/**
+ * Track colorizer
+ */
+export class TrackColorizer {
+  static readonly DEFAULT_RAMP = ['#1A9850', '#FEE08B', '#D73027'];
+
+  /**
+   * Validate coloring options before any tile is fetched
+   */
+  static validateOptions(options: ColorByOptions): void {
+    if (!options.attribute || typeof options.attribute !== 'string') {
+      throw new Error('colorBy.attribute is required');
+    }
+
+    const scale = options.scale ?? 'linear';
+    if (!['linear', 'quantile', 'fixed'].includes(scale)) {
+      throw new Error(`Unknown color scale: ${scale}`);
+    }
+
+    const ramp = options.ramp ?? TrackColorizer.DEFAULT_RAMP;
+    if (ramp.length < 2) {
+      throw new Error('Color ramp needs at least 2 colors');
+    }
+    ramp.forEach(color => ColorUtil.parse(color));
+
+    if (options.domain && !(options.domain.length === 2 && options.domain[0] < options.domain[1])) {
+      throw new Error(`Color domain must be [min, max] with min < max, got: ${JSON.stringify(options.domain)}`);
+    }
+
+    if (scale === 'fixed') {
+      const breaks = options.breaks;
+      if (!breaks || breaks.length !== ramp.length) {
+        throw new Error(`Fixed color scale needs one break per ramp color (${ramp.length})`);
+      }
+      for (let i = 1; i < breaks.length; i++) {
+        if (!(breaks[i] > breaks[i - 1])) {
+          throw new Error(`Color breaks must be strictly ascending, got: ${JSON.stringify(breaks)}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Compute one color per point, or undefined when no point carries a value
+   * Points without a value take the value of the nearest preceding (or following) point
+   */
+  static getPointColors(gpsPoints: TrackPoint[], options: ColorByOptions): string[] | undefined {
+    return TrackColorizer.getSegmentColors([gpsPoints], options)?.[0];
+  }
+
+  /**
+   * Compute one color per point of each segment, sharing one scale across all segments
+   * Derived values such as speed never span the gap between two segments
+   */
+  static getSegmentColors(segments: TrackPoint[][], options: ColorByOptions): string[][] | undefined {
+    const values = TrackColorizer.fillMissing(
+      segments.flatMap(segment => TrackColorizer.getValues(segment, options.attribute))
+    );
+    if (!values) {
+      return undefined;
+    }
+
+    const ramp = (options.ramp ?? TrackColorizer.DEFAULT_RAMP).map(color => ColorUtil.parse(color));
+    const scale = TrackColorizer.createScale(values, ramp, options);
+    const colors = values.map(value => ColorUtil.toString(scale(value)));
+
+    let offset = 0;
+    return segments.map(segment => {
+      const segmentColors = colors.slice(offset, offset + segment.length);
+      offset += segment.length;
+      return segmentColors;
+    });
+  }
+
+  /**
+   * Read the colored value of each point
+   * 'speed' (m/s) and 'pace' (s/km) are derived from timestamps and distance to neighbouring points
+   */
+  static getValues(gpsPoints: TrackPoint[], attribute: string): (number | undefined)[] {
+    switch (attribute) {
+      case 'speed':
+        return TrackColorizer.getSpeeds(gpsPoints);
+      case 'pace':
+        return TrackColorizer.getSpeeds(gpsPoints).map(speed =>
+          speed !== undefined && speed > 0 ? 1000 / speed : undefined
+        );
+      case 'elevation':
+        return gpsPoints.map(point => point.elevation);
+      default:
+        return gpsPoints.map(point => {
+          const value = point.attributes?.[attribute];
+          return typeof value === 'number' && isFinite(value) ? value : undefined;
+        });
+    }
+  }
+
+  /**
+   * Build a value-to-color function for the configured scale
+   */
+  static createScale(values: number[], ramp: RGBA[], options: ColorByOptions): (value: number) => RGBA {
+    switch (options.scale ?? 'linear') {
+      case 'quantile': {
+        // Position is the share of values below, so colors are spread evenly over the data
+        const sorted = [...values].sort((a, b) => a - b);
+        const last = Math.max(sorted.length - 1, 1);
+        return value => ColorUtil.sampleRamp(ramp, TrackColorizer.lowerBound(sorted, value) / last);
+      }
+      case 'fixed': {
+        const breaks = options.breaks!;
+        return value => {
+          const index = TrackColorizer.lowerBound(breaks, value);
+          if (index === 0) {
+            return ramp[0];
+          }
+          if (index >= breaks.length) {
+            return ramp[ramp.length - 1];
+          }
+          const t = (value - breaks[index - 1]) / (breaks[index] - breaks[index - 1]);
+          return ColorUtil.interpolate(ramp[index - 1], ramp[index], t);
+        };
+      }
+      default: {
+        // Reduce rather than spread, long tracks exceed the argument limit of Math.min / Math.max
+        const [min, max] = options.domain ?? values.reduce(
+          ([low, high], value) => [Math.min(low, value), Math.max(high, value)],
+          [Infinity, -Infinity]
+        );
+        return value => ColorUtil.sampleRamp(ramp, max > min ? (value - min) / (max - min) : 0.5);
+      }
+    }
+  }
+
+  /**
+   * Speed at each point in m/s, averaged over the adjacent segments
+   */
+  private static getSpeeds(gpsPoints: TrackPoint[]): (number | undefined)[] {
+    return gpsPoints.map((point, i) => {
+      const previous = gpsPoints[Math.max(i - 1, 0)];
+      const next = gpsPoints[Math.min(i + 1, gpsPoints.length - 1)];
+
+      if (!previous.time || !next.time || previous === next) {
+        return undefined;
+      }
+
+      const seconds = (next.time.getTime() - previous.time.getTime()) / 1000;
+      if (seconds <= 0) {
+        return undefined;
+      }
+
+      const distance = GeoUtil.calculateDistance(previous, point) + GeoUtil.calculateDistance(point, next);
+      return distance / seconds;
+    });
+  }
+
+  /**
+   * Fill missing values from neighbouring points, undefined when there are none at all
+   */
+  private static fillMissing(values: (number | undefined)[]): number[] | undefined {
+    const first = values.find(value => value !== undefined);
+    if (first === undefined) {
+      return undefined;
+    }
+
+    let current = first;
+    return values.map(value => {
+      if (value !== undefined) {
+        current = value;
+      }
+      return current;
+    });
+  }
+
+  /**
+   * Index of the first sorted entry that is not less than value
+   */
+  private static lowerBound(sorted: number[], value: number): number {
+    let low = 0;
+    let high = sorted.length;
+
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sorted[mid] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
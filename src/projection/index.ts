@@ -3,9 +3,17 @@
  * Handles GPS trajectory projection onto map images
  */
 
-import { LatLng, GeoBounds, PixelPoint, PixelBounds, TrackRegion, ProjectionResult, TrajmapConfig } from '../types';
+import { LatLng, GeoBounds, PixelPoint, PixelBounds, TrackRegion, ProjectionResult, TrajmapConfig, TrackPoint, Track, LineCap, LineJoin, ArrowOptions, PathPosition, MeasuredPathPosition, DistanceMarkerOptions, MarkerDefinition, Annotation, AnnotationStyle, LabelRequest } from '../types';
 import { MercatorUtil } from '../utils/mercator';
-import { createCanvas, loadImage } from 'canvas';
+import { PathUtil } from '../utils/path';
+import { GeoUtil } from '../utils/geo';
+import { TrackColorizer } from './coloring';
+import { MarkerResolver } from './markers';
+import { LabelPlacer } from './labels';
+import { createCanvas, loadImage, Image } from 'canvas';
+
+export { TrackColorizer } from './coloring';
+export { MarkerResolver } from './markers';
 
 /**
  * Projection service
@@ -15,7 +23,7 @@ export class ProjectionService {
    * Project GPS trajectory onto map image
    */
   static async projectTrajectory(
-    gpsPoints: LatLng[],
+    gpsPoints: TrackPoint[],
     mapImage: Buffer,
     mapBounds: GeoBounds,
     imageWidth: number,
@@ -23,14 +31,37 @@ export class ProjectionService {
     zoom: number,
     config: TrajmapConfig
   ): Promise<ProjectionResult> {
+    const track: Track = {
+      segments: [gpsPoints],
+      style: config,
+      zIndex: 0
+    };
+
+    return ProjectionService.projectTracks([track], mapImage, mapBounds, imageWidth, imageHeight, zoom, config);
+  }
+
+  /**
+   * Project several trajectories onto map image, in ascending zIndex order
+   */
+  static async projectTracks(
+    tracks: Track[],
+    mapImage: Buffer,
+    mapBounds: GeoBounds,
+    imageWidth: number,
+    imageHeight: number,
+    zoom: number,
+    config: TrajmapConfig
+  ): Promise<ProjectionResult> {
+    const gpsPoints = tracks.flatMap(track => track.segments.flat());
     if (gpsPoints.length === 0) {
       throw new Error('No GPS points to project');
     }
 
     // Convert GPS points to pixel coordinates
-    const pixelPoints = gpsPoints.map(point => 
+    const trackPixelSegments = tracks.map(track => track.segments.map(segment => segment.map(point =>
       MercatorUtil.latLngToPixel(point, mapBounds, imageWidth, imageHeight, zoom)
-    );
+    )));
+    const pixelPoints = trackPixelSegments.flat(2);
 
     // Validate pixel points are within image bounds
     ProjectionService.validatePixelPoints(pixelPoints, imageWidth, imageHeight);
@@ -42,31 +73,28 @@ export class ProjectionService {
     
     // Draw background image
     ctx.drawImage(image, 0, 0);
-    
-    // Draw trajectory if we have at least 2 points
-    if (pixelPoints.length >= 2) {
-      ctx.strokeStyle = config.lineColor || '#FF5500';
-      ctx.lineWidth = config.lineWidth || 3;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      
-      ctx.beginPath();
-      ctx.moveTo(pixelPoints[0].x, pixelPoints[0].y);
-      
-      for (let i = 1; i < pixelPoints.length; i++) {
-        ctx.lineTo(pixelPoints[i].x, pixelPoints[i].y);
-      }
-      
-      ctx.stroke();
-      
-      // Draw markers if specified
-      if (config.marker?.start) {
-        ProjectionService.drawMarker(ctx, pixelPoints[0], config.marker.start, 'start');
-      }
-      
-      if (config.marker?.end) {
-        ProjectionService.drawMarker(ctx, pixelPoints[pixelPoints.length - 1], config.marker.end, 'end');
-      }
+
+    // Stable sort keeps input order for tracks with equal zIndex
+    const drawOrder = tracks
+      .map((track, i) => ({ track, segments: trackPixelSegments[i] }))
+      .sort((a, b) => a.track.zIndex - b.track.zIndex);
+
+    const annotations = config.annotations || [];
+    const markerImages = await ProjectionService.loadMarkerImages([
+      ...tracks.flatMap(track => [track.style.marker?.start, track.style.marker?.end]),
+      ...annotations.map(annotation => annotation.icon)
+    ]);
+
+    for (const { track, segments } of drawOrder) {
+      ProjectionService.drawTrack(ctx, track, segments, config, markerImages);
+    }
+
+    // Annotations are drawn above all tracks
+    if (annotations.length > 0) {
+      const annotationPoints = annotations.map(annotation =>
+        MercatorUtil.latLngToPixel(annotation, mapBounds, imageWidth, imageHeight, zoom)
+      );
+      ProjectionService.drawAnnotations(ctx, annotations, annotationPoints, config.annotationStyle, markerImages);
     }
     
     // Calculate pixel bounds for the trajectory
@@ -75,11 +103,291 @@ export class ProjectionService {
     return {
       finalImage: canvas.toBuffer('image/png'),
       gpsPoints: gpsPoints,
+      tracks: tracks,
       bounds: mapBounds,
       pixelBounds: pixelBounds,
     };
   }
 
+  /**
+   * Draw one trajectory with its style and markers
+   * Segments are stroked separately so gaps stay open unless a dashed connector is configured
+   */
+  static drawTrack(
+    ctx: any,
+    track: Track,
+    pixelSegments: PixelPoint[][],
+    config: TrajmapConfig,
+    markerImages: Map<string | Buffer, Image> = new Map()
+  ): void {
+    const pixelPoints = pixelSegments.flat();
+
+    // Draw trajectory if we have at least 2 points
+    if (pixelPoints.length < 2) {
+      return;
+    }
+
+    const style = track.style;
+    const lineColor = style.lineColor || config.lineColor || '#FF5500';
+    const lineWidth = style.lineWidth || config.lineWidth || 3;
+    const opacity = style.lineOpacity ?? 1;
+    const cap = style.lineCap || 'round';
+    const join = style.lineJoin || 'round';
+
+    // Opacity and shadow are applied to the finished track, so overlapping strokes
+    // (casing, segment joints) do not darken or cast shadows on each other
+    const layered = opacity < 1 || style.lineShadow !== undefined;
+    const target = layered ? createCanvas(ctx.canvas.width, ctx.canvas.height).getContext('2d') : ctx;
+
+    // Data-driven coloring falls back to lineColor when no point carries the value
+    const colors = style.colorBy ? TrackColorizer.getSegmentColors(track.segments, style.colorBy) : undefined;
+    if (style.colorBy && !colors) {
+      console.warn(`No values found for colorBy attribute '${style.colorBy.attribute}', using lineColor`);
+    }
+
+    const drawnSegments = pixelSegments.filter(segment => segment.length >= 2);
+
+    if (style.lineCasing) {
+      ProjectionService.applyLineStyle(target, {
+        color: style.lineCasing.color || '#FFFFFF',
+        width: lineWidth + 2 * (style.lineCasing.width ?? 2),
+        cap,
+        join
+      });
+      drawnSegments.forEach(segment => ProjectionService.drawTrajectoryPath(segment, target));
+    }
+
+    if (config.gaps?.connector === 'dashed') {
+      ProjectionService.applyLineStyle(target, { color: lineColor, width: lineWidth, dashPattern: [lineWidth * 2, lineWidth * 2], cap, join });
+
+      for (let i = 1; i < pixelSegments.length; i++) {
+        const from = pixelSegments[i - 1][pixelSegments[i - 1].length - 1];
+        const to = pixelSegments[i][0];
+        const fromColor = colors ? colors[i - 1][colors[i - 1].length - 1] : lineColor;
+        const toColor = colors ? colors[i][0] : lineColor;
+
+        ProjectionService.drawColoredPath(target, [from, to], [fromColor, toColor]);
+      }
+    }
+
+    ProjectionService.applyLineStyle(target, { color: lineColor, width: lineWidth, dashPattern: style.lineDash, cap, join });
+
+    pixelSegments.forEach((segment, i) => {
+      if (segment.length < 2) {
+        return;
+      }
+
+      if (colors) {
+        ProjectionService.drawColoredPath(target, segment, colors[i], style.colorBy!.gradient !== false);
+      } else {
+        ProjectionService.drawTrajectoryPath(segment, target);
+      }
+    });
+
+    if (layered) {
+      ctx.save();
+      ctx.globalAlpha = opacity;
+      if (style.lineShadow) {
+        ctx.shadowColor = style.lineShadow.color || 'rgba(0, 0, 0, 0.5)';
+        ctx.shadowBlur = style.lineShadow.blur ?? 4;
+        ctx.shadowOffsetX = style.lineShadow.offsetX ?? 0;
+        ctx.shadowOffsetY = style.lineShadow.offsetY ?? 2;
+      }
+      ctx.drawImage(target.canvas, 0, 0);
+      ctx.restore();
+    }
+
+    if (style.arrows) {
+      ProjectionService.drawArrows(ctx, track, pixelSegments, style.arrows, lineWidth);
+    }
+
+    if (style.distanceMarkers) {
+      ProjectionService.drawDistanceMarkers(ctx, track, pixelSegments, style.distanceMarkers);
+    }
+
+    // Draw markers if specified
+    const { start, end } = style.marker || {};
+    if (start) {
+      const image = typeof start === 'string' || start.image === undefined ? undefined : markerImages.get(start.image);
+      ProjectionService.drawMarker(ctx, pixelPoints[0], start, 'start', image);
+    }
+
+    if (end) {
+      const image = typeof end === 'string' || end.image === undefined ? undefined : markerImages.get(end.image);
+      ProjectionService.drawMarker(ctx, pixelPoints[pixelPoints.length - 1], end, 'end', image);
+    }
+  }
+
+  /**
+   * Draw direction arrows along a track, pointing in the direction of travel
+   */
+  static drawArrows(
+    ctx: any,
+    track: Track,
+    pixelSegments: PixelPoint[][],
+    options: ArrowOptions,
+    lineWidth: number
+  ): void {
+    const size = options.size ?? Math.max(8, lineWidth * 2.5);
+    const positions = ProjectionService.getArrowPositions(track, pixelSegments, options, size);
+
+    ctx.save();
+    ctx.fillStyle = options.color || '#FFFFFF';
+    ctx.strokeStyle = options.strokeColor || 'transparent';
+    ctx.lineWidth = options.strokeWidth ?? 1;
+    ctx.lineJoin = 'miter';
+    ctx.setLineDash([]);
+
+    for (const position of positions) {
+      ctx.save();
+      ctx.translate(position.x, position.y);
+      ctx.rotate(position.angle);
+
+      ctx.beginPath();
+      ctx.moveTo(size / 2, 0);
+      ctx.lineTo(-size / 2, -size * 0.4);
+      ctx.lineTo(-size / 4, 0);
+      ctx.lineTo(-size / 2, size * 0.4);
+      ctx.closePath();
+      ctx.fill();
+      if (options.strokeColor) {
+        ctx.stroke();
+      }
+
+      ctx.restore();
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Arrow positions at pixel spacing, or every `distance` kilometers along the whole track
+   * Segments too short to hold an arrow get none, and arrows closer than two arrow lengths are thinned out
+   */
+  static getArrowPositions(
+    track: Track,
+    pixelSegments: PixelPoint[][],
+    options: ArrowOptions,
+    size: number
+  ): PathPosition[] {
+    if (options.distance) {
+      const positions = PathUtil.positionsEvery(
+        track.segments, pixelSegments, options.distance * 1000, track.sourceSegments
+      );
+      return ProjectionService.thinPositions(positions, size * 2);
+    }
+
+    const positions: PathPosition[] = [];
+    pixelSegments.forEach(pixelPoints => {
+      const length = PathUtil.pixelLength(pixelPoints);
+      if (pixelPoints.length < 2 || length < size * 4) {
+        return;
+      }
+
+      // Spread arrows evenly with half a spacing at either end
+      const count = Math.max(1, Math.floor(length / (options.spacing ?? 120)));
+      const offsets = Array.from({ length: count }, (_, k) => (k + 0.5) * length / count);
+      positions.push(...PathUtil.positionsAtOffsets(pixelPoints, offsets));
+    });
+
+    return ProjectionService.thinPositions(positions, size * 2);
+  }
+
+  /**
+   * Draw numbered distance badges along a track
+   */
+  static drawDistanceMarkers(
+    ctx: any,
+    track: Track,
+    pixelSegments: PixelPoint[][],
+    options: DistanceMarkerOptions
+  ): void {
+    const radius = options.radius ?? 9;
+    const markers = ProjectionService.getDistanceMarkers(track, pixelSegments, options, radius);
+
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.font = options.font || 'bold 10px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = options.strokeWidth ?? 1.5;
+
+    for (const { position, label } of markers) {
+      // Widen the badge into a pill when the label does not fit the circle
+      const halfWidth = Math.max(radius, ctx.measureText(label).width / 2 + radius / 2);
+
+      ctx.beginPath();
+      ctx.arc(position.x - halfWidth + radius, position.y, radius, Math.PI / 2, Math.PI * 3 / 2);
+      ctx.arc(position.x + halfWidth - radius, position.y, radius, -Math.PI / 2, Math.PI / 2);
+      ctx.closePath();
+
+      ctx.fillStyle = options.fill || '#FFFFFF';
+      ctx.fill();
+      if (ctx.lineWidth > 0) {
+        ctx.strokeStyle = options.strokeColor || '#333333';
+        ctx.stroke();
+      }
+
+      ctx.fillStyle = options.textColor || '#333333';
+      ctx.fillText(label, position.x, position.y);
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Distance marker positions and labels
+   * When badges would overlap, only every 2nd, 5th, 10th, 20th... marker is kept
+   */
+  static getDistanceMarkers(
+    track: Track,
+    pixelSegments: PixelPoint[][],
+    options: DistanceMarkerOptions,
+    radius: number
+  ): { position: MeasuredPathPosition; label: string }[] {
+    const unitLength = options.unit === 'mi' ? GeoUtil.METERS_PER_MILE : 1000;
+    const positions = PathUtil.positionsEvery(
+      track.segments,
+      pixelSegments,
+      (options.interval ?? 1) * unitLength,
+      track.sourceSegments
+    );
+    const minDistance = radius * 2 + 2;
+
+    for (let magnitude = 1; ; magnitude *= 10) {
+      for (const factor of [1, 2, 5]) {
+        const step = factor * magnitude;
+        const kept = positions.filter((_, i) => (i + 1) % step === 0);
+
+        // Check all pairs, loops and out-and-back routes put distant markers next to each other
+        const overlaps = kept.some((a, i) => kept.slice(i + 1).some(b => Math.hypot(a.x - b.x, a.y - b.y) < minDistance));
+
+        if (!overlaps) {
+          return kept.map(position => ({
+            position,
+            label: String(parseFloat((position.distance / unitLength).toFixed(2)))
+          }));
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop positions closer than minDistance to the previously kept one
+   */
+  private static thinPositions<T extends PixelPoint>(positions: T[], minDistance: number): T[] {
+    const kept: T[] = [];
+
+    for (const position of positions) {
+      const previous = kept[kept.length - 1];
+      if (!previous || Math.hypot(position.x - previous.x, position.y - previous.y) >= minDistance) {
+        kept.push(position);
+      }
+    }
+
+    return kept;
+  }
+
   /**
    * Convert GPS points to pixel coordinates
    */
@@ -140,88 +448,261 @@ export class ProjectionService {
   }
 
   /**
-   * Apply line style configuration
+   * Apply line style to a canvas context
    */
-  static applyLineStyle(config: {
+  static applyLineStyle(ctx: any, config: {
     color: string;
     width: number;
     opacity?: number;
     dashPattern?: number[];
-  }): any {
-    // In a real implementation, this would return canvas/graphics context styling
-    // For now, return the config as-is
-    return {
-      strokeStyle: config.color,
-      lineWidth: config.width,
-      globalAlpha: config.opacity || 1.0,
-      lineDash: config.dashPattern || []
-    };
+    cap?: LineCap;
+    join?: LineJoin;
+  }): void {
+    ctx.strokeStyle = config.color;
+    ctx.lineWidth = config.width;
+    ctx.globalAlpha = config.opacity ?? 1;
+    ctx.lineCap = config.cap || 'round';
+    ctx.lineJoin = config.join || 'round';
+    ctx.setLineDash(config.dashPattern || []);
+    ctx.lineDashOffset = 0;
   }
 
   /**
-   * Draw trajectory path on canvas context
+   * Stroke a path through pixel points with the current line style
    */
-  static drawTrajectoryPath(
-    pixelPoints: PixelPoint[],
-    context: any, // Canvas context or similar
-    lineStyle: any
-  ): void {
+  static drawTrajectoryPath(pixelPoints: PixelPoint[], ctx: any): void {
     if (pixelPoints.length < 2) {
       return; // Need at least 2 points to draw a line
     }
 
-    // Apply line style
-    Object.assign(context, lineStyle);
-
-    // Begin path
-    context.beginPath();
-    context.moveTo(pixelPoints[0].x, pixelPoints[0].y);
+    ctx.beginPath();
+    ctx.moveTo(pixelPoints[0].x, pixelPoints[0].y);
 
     // Draw lines to each subsequent point
     for (let i = 1; i < pixelPoints.length; i++) {
-      context.lineTo(pixelPoints[i].x, pixelPoints[i].y);
+      ctx.lineTo(pixelPoints[i].x, pixelPoints[i].y);
     }
 
-    // Stroke the path
-    context.stroke();
+    ctx.stroke();
+  }
+
+  /**
+   * Stroke each segment in its own color, using the current line width
+   * With gradient, colors blend from one point to the next; otherwise a segment takes its start color
+   */
+  static drawColoredPath(
+    ctx: any,
+    pixelPoints: PixelPoint[],
+    colors: string[],
+    gradient: boolean = true
+  ): void {
+    // Continue the dash pattern across segments instead of restarting it at every point
+    let dashOffset = ctx.lineDashOffset || 0;
+
+    for (let i = 1; i < pixelPoints.length; i++) {
+      const from = pixelPoints[i - 1];
+      const to = pixelPoints[i];
+      ctx.lineDashOffset = dashOffset;
+      dashOffset += Math.hypot(to.x - from.x, to.y - from.y);
+
+      if (gradient && (from.x !== to.x || from.y !== to.y)) {
+        const style = ctx.createLinearGradient(from.x, from.y, to.x, to.y);
+        style.addColorStop(0, colors[i - 1]);
+        style.addColorStop(1, colors[i]);
+        ctx.strokeStyle = style;
+      } else {
+        ctx.strokeStyle = colors[i - 1];
+      }
+
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    }
+  }
+
+  /**
+   * Draw annotation icons, then their labels where they fit without overlapping
+   */
+  static drawAnnotations(
+    ctx: any,
+    annotations: Annotation[],
+    pixelPoints: PixelPoint[],
+    defaultStyle: AnnotationStyle = {},
+    markerImages: Map<string | Buffer, Image> = new Map()
+  ): void {
+    const iconBoxes = annotations.map((annotation, i) => {
+      const icon = MarkerResolver.resolve(annotation.icon ?? 'circle');
+      const image = icon.image !== undefined ? markerImages.get(icon.image) : undefined;
+      ProjectionService.drawMarker(ctx, pixelPoints[i], icon, 'annotation', image);
+
+      // Label anchor sits on the icon box center, so image anchors are taken into account
+      let width = icon.size ?? 12;
+      let height = width;
+      let [anchorX, anchorY] = [0.5, 0.5];
+      if (image) {
+        const scale = icon.size ? icon.size / Math.max(image.width, image.height) : 1;
+        width = image.width * scale;
+        height = image.height * scale;
+        [anchorX, anchorY] = icon.anchor ?? [0.5, 0.5];
+      }
+
+      const minX = pixelPoints[i].x - width * anchorX;
+      const minY = pixelPoints[i].y - height * anchorY;
+      return { minX, minY, maxX: minX + width, maxY: minY + height };
+    });
+
+    ctx.save();
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+
+    const requests: LabelRequest[] = [];
+    const labelled: number[] = [];
+    annotations.forEach((annotation, i) => {
+      if (!annotation.label) {
+        return;
+      }
+
+      const style = { ...defaultStyle, ...annotation.style };
+      const padding = style.padding ?? 3;
+      ctx.font = style.font || 'bold 11px sans-serif';
+      const metrics = ctx.measureText(annotation.label);
+      const box = iconBoxes[i];
+
+      requests.push({
+        x: (box.minX + box.maxX) / 2,
+        y: (box.minY + box.maxY) / 2,
+        width: metrics.width + padding * 2,
+        height: (metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent || 11) + padding * 2,
+        offset: Math.max(box.maxX - box.minX, box.maxY - box.minY) / 2 + 2
+      });
+      labelled.push(i);
+    });
+
+    const placements = LabelPlacer.place(requests, iconBoxes, ctx.canvas.width, ctx.canvas.height);
+
+    placements.forEach((box, k) => {
+      if (!box) {
+        return;
+      }
+
+      const annotation = annotations[labelled[k]];
+      const style = { ...defaultStyle, ...annotation.style };
+      const padding = style.padding ?? 3;
+
+      ctx.fillStyle = style.background || 'rgba(255, 255, 255, 0.85)';
+      ctx.fillRect(box.minX, box.minY, box.maxX - box.minX, box.maxY - box.minY);
+
+      ctx.font = style.font || 'bold 11px sans-serif';
+      ctx.fillStyle = style.color || '#333333';
+      ctx.fillText(annotation.label, box.minX + padding, (box.minY + box.maxY) / 2);
+    });
+
+    ctx.restore();
+  }
+
+  /**
+   * Load the images of image markers, keyed by their path or buffer
+   */
+  static async loadMarkerImages(markers: (string | MarkerDefinition | undefined)[]): Promise<Map<string | Buffer, Image>> {
+    const images = new Map<string | Buffer, Image>();
+
+    for (const marker of markers) {
+      if (marker && typeof marker !== 'string' && marker.image !== undefined && !images.has(marker.image)) {
+        try {
+          images.set(marker.image, await loadImage(marker.image));
+        } catch (error) {
+          const source = typeof marker.image === 'string' ? marker.image : 'buffer';
+          throw new Error(`Failed to load marker image (${source}): ${error}`);
+        }
+      }
+    }
+
+    return images;
   }
 
   /**
    * Draw marker at specified position
+   * @param image - Loaded image of an image marker
    */
   static drawMarker(
     ctx: any,
     point: PixelPoint,
-    markerType: string,
-    position: 'start' | 'end'
+    marker: string | MarkerDefinition,
+    position: 'start' | 'end' | 'annotation',
+    image?: Image
   ): void {
-    const size = 12;
+    const definition = MarkerResolver.resolve(marker);
+
+    ctx.save();
+    ctx.setLineDash([]);
+
+    if (definition.type === 'image') {
+      if (!image) {
+        throw new Error('Marker image has not been loaded');
+      }
+
+      // Scale the longest side to the marker size, natural size otherwise
+      const scale = definition.size ? definition.size / Math.max(image.width, image.height) : 1;
+      const width = image.width * scale;
+      const height = image.height * scale;
+      const [anchorX, anchorY] = definition.anchor ?? [0.5, 0.5];
+      const left = point.x - width * anchorX;
+      const top = point.y - height * anchorY;
+
+      ctx.drawImage(image, left, top, width, height);
+
+      if (definition.label) {
+        ctx.font = definition.labelFont || 'bold 11px sans-serif';
+        ctx.fillStyle = definition.labelColor || '#333333';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        ctx.fillText(definition.label, left + width / 2, top + height + 2);
+      }
+
+      ctx.restore();
+      return;
+    }
+
+    const size = definition.size ?? 12;
     
     // Draw geometric shape
-    ctx.fillStyle = position === 'start' ? '#00CC00' : '#CC0000';
+    ctx.fillStyle = definition.fill || { start: '#00CC00', end: '#CC0000', annotation: '#1565C0' }[position];
+    ctx.strokeStyle = definition.stroke || 'transparent';
+    ctx.lineWidth = definition.strokeWidth ?? 1;
+    ctx.beginPath();
     
-    switch (markerType.toLowerCase()) {
+    switch (definition.type) {
       case 'circle':
-        ctx.beginPath();
         ctx.arc(point.x, point.y, size / 2, 0, 2 * Math.PI);
-        ctx.fill();
         break;
       case 'square':
-        ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size);
+        ctx.rect(point.x - size / 2, point.y - size / 2, size, size);
         break;
       case 'triangle':
-        ctx.beginPath();
         ctx.moveTo(point.x, point.y - size / 2);
         ctx.lineTo(point.x - size / 2, point.y + size / 2);
         ctx.lineTo(point.x + size / 2, point.y + size / 2);
         ctx.closePath();
-        ctx.fill();
         break;
       default:
-        // Default to circle
-        ctx.beginPath();
-        ctx.arc(point.x, point.y, size / 2, 0, 2 * Math.PI);
-        ctx.fill();
+        throw new Error(`Unknown marker type: ${definition.type}`);
     }
+
+    ctx.fill();
+    if (definition.stroke) {
+      ctx.stroke();
+    }
+
+    if (definition.label) {
+      ctx.font = definition.labelFont || `bold ${Math.round(size * 0.6)}px sans-serif`;
+      ctx.fillStyle = definition.labelColor || '#FFFFFF';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      // Triangles have their visual center below the geometric one
+      ctx.fillText(definition.label, point.x, definition.type === 'triangle' ? point.y + size / 6 : point.y);
+    }
+
+    ctx.restore();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+/**
+ * Label placement
+ * Positions annotation labels so they do not overlap or leave the image
+ */
+
+import { PixelBounds, LabelRequest } from '../types';
+
+/**
+ * Greedy label placer
+ */
+export class LabelPlacer {
+  /**
+   * Place labels in order, trying right, left, above and below each anchor
+   * A candidate is taken when it stays inside the image and clears the obstacles and all labels placed so far;
+   * labels without such a position are dropped (undefined)
+   */
+  static place(
+    labels: LabelRequest[],
+    obstacles: PixelBounds[],
+    imageWidth: number,
+    imageHeight: number
+  ): (PixelBounds | undefined)[] {
+    const occupied = [...obstacles];
+
+    return labels.map(label => {
+      const { x, y, width, height, offset } = label;
+      const candidates: PixelBounds[] = [
+        { minX: x + offset, maxX: x + offset + width, minY: y - height / 2, maxY: y + height / 2 },
+        { minX: x - offset - width, maxX: x - offset, minY: y - height / 2, maxY: y + height / 2 },
+        { minX: x - width / 2, maxX: x + width / 2, minY: y - offset - height, maxY: y - offset },
+        { minX: x - width / 2, maxX: x + width / 2, minY: y + offset, maxY: y + offset + height }
+      ];
+
+      const placed = candidates.find(box =>
+        box.minX >= 0 && box.minY >= 0 && box.maxX <= imageWidth && box.maxY <= imageHeight &&
+        !occupied.some(other => LabelPlacer.intersects(box, other))
+      );
+
+      if (placed) {
+        occupied.push(placed);
+      }
+
+      return placed;
+    });
+  }
+
+  /**
+   * Whether two boxes overlap
+   */
+  static intersects(a: PixelBounds, b: PixelBounds): boolean {
+    return a.minX < b.maxX && a.maxX > b.minX && a.minY < b.maxY && a.maxY > b.minY;
+  }
+}
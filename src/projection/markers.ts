@@ -0,0 +1,53 @@
+/**
+ * Marker definitions
+ * Normalizes and validates start/end marker configuration
+ */
+
+import * as fs from 'fs';
+import { MarkerDefinition, MarkerShape } from '../types';
+
+/**
+ * Marker resolver
+ */
+export class MarkerResolver {
+  /**
+   * Normalize a marker shape name or definition
+   */
+  static resolve(marker: string | MarkerDefinition): MarkerDefinition {
+    if (typeof marker === 'string') {
+      return { type: marker.toLowerCase() as MarkerShape };
+    }
+
+    return { ...marker, type: marker.type ?? (marker.image !== undefined ? 'image' : 'circle') };
+  }
+
+  /**
+   * Validate a marker shape name or definition, rejecting unknown types
+   */
+  static validate(marker: string | MarkerDefinition): void {
+    const definition = MarkerResolver.resolve(marker);
+
+    if (!['circle', 'square', 'triangle', 'image'].includes(definition.type!)) {
+      throw new Error(`Unknown marker type: ${typeof marker === 'string' ? marker : definition.type}`);
+    }
+
+    if (definition.size !== undefined && !(definition.size > 0)) {
+      throw new Error(`Marker size must be a positive number, got: ${definition.size}`);
+    }
+
+    if (definition.type === 'image') {
+      if (definition.image === undefined) {
+        throw new Error('Image marker requires an image path or buffer');
+      }
+      if (typeof definition.image === 'string' && !fs.existsSync(definition.image)) {
+        throw new Error(`Marker image not found: ${definition.image}`);
+      }
+    }
+
+    const anchor = definition.anchor;
+    if (anchor !== undefined &&
+        !(Array.isArray(anchor) && anchor.length === 2 && anchor.every(value => typeof value === 'number'))) {
+      throw new Error(`Marker anchor must be [x, y] fractions, got: ${JSON.stringify(anchor)}`);
+    }
+  }
+}
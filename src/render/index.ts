@@ -1,6 +1,12 @@
 import { Canvas, createCanvas, loadImage } from 'canvas';
-import { RenderResult, PixelPoint, LatLng, GeoBounds, ProjectionResult, TrackRegion, ExpansionRegion, TrajmapConfig } from '../types';
+import { RenderResult, RenderPoint, RenderTrack, PixelPoint, LatLng, GeoBounds, ProjectionResult, TrackRegion, ExpansionRegion, TrajmapConfig, TrackPoint } from '../types';
 import { MercatorUtil } from '../utils/mercator';
+import { GeoJsonUtil } from '../utils/geojson';
+import { OverlayRenderer } from './overlays';
+import { StatsUtil } from '../utils/stats';
+
+export { OverlayRenderer } from './overlays';
+export { PanelRenderer } from './panel';
 
 /**
  * Render class for handling final image output and formatting
@@ -25,11 +31,24 @@ export class RenderService {
     );
     
     // Resize the projected image to match output dimensions
-    const resizedImage = await this.resizeImage(
+    let resizedImage = await this.resizeImage(
       projectionResult.finalImage,
       finalWidth,
       finalHeight
     );
+
+    // Stats use every point of every track, gaps between segments excluded
+    const stats = config.panel
+      ? StatsUtil.compute(projectionResult.tracks.flatMap(track => track.segments))
+      : undefined;
+
+    // Map furniture is drawn at output resolution so its size does not depend on the zoom level
+    if (OverlayRenderer.hasOverlays(config)) {
+      resizedImage = await OverlayRenderer.draw(resizedImage, config, projectionResult.bounds, zoom, stats);
+    }
+
+    // A header panel that extends the canvas pushes the map down
+    const offsetY = OverlayRenderer.getMapOffset(config, stats);
     
     // Convert resized image to base64
     const base64Image = resizedImage.toString('base64');
@@ -39,7 +58,7 @@ export class RenderService {
     const scaleY = finalHeight / projectionResult.pixelBounds.maxY;
     
     // Convert GPS coordinates to pixel coordinates based on output dimensions
-    const pixelPoints: PixelPoint[] = projectionResult.gpsPoints.map(point => {
+    const toRenderPoint = (point: TrackPoint): RenderPoint => {
       const originalPixel = MercatorUtil.latLngToPixel(
         point,
         projectionResult.bounds,
@@ -50,16 +69,64 @@ export class RenderService {
       );
       
       // Scale to output dimensions
-      return {
+      const renderPoint: RenderPoint = {
         x: originalPixel.x * scaleX,
-        y: originalPixel.y * scaleY
+        y: originalPixel.y * scaleY + offsetY
       };
+
+      // Carry over point metadata
+      if (point.time !== undefined) {
+        renderPoint.time = point.time;
+      }
+      if (point.elevation !== undefined) {
+        renderPoint.elevation = point.elevation;
+      }
+      if (point.attributes !== undefined) {
+        renderPoint.attributes = point.attributes;
+      }
+
+      return renderPoint;
+    };
+
+    const tracks: RenderTrack[] = projectionResult.tracks.map(track => {
+      const segments = track.segments.map(segment => segment.map(toRenderPoint));
+      const renderTrack: RenderTrack = { points: segments.flat(), segments };
+      if (track.name !== undefined) {
+        renderTrack.name = track.name;
+      }
+      return renderTrack;
     });
     
-    return {
+    const result: RenderResult = {
       data: base64Image,
-      points: pixelPoints
+      points: tracks.flatMap(track => track.points),
+      tracks
     };
+
+    if (stats) {
+      result.stats = stats;
+    }
+
+    if (config.annotations && config.annotations.length > 0) {
+      result.annotations = config.annotations.map(annotation => {
+        const { x, y } = toRenderPoint(annotation);
+        return annotation.label !== undefined ? { x, y, label: annotation.label } : { x, y };
+      });
+    }
+
+    if (config.outputGeoJson) {
+      const features = projectionResult.tracks.map(track => GeoJsonUtil.toFeature(track.segments, projectionResult.bounds, {
+        ...(track.name !== undefined ? { name: track.name } : {}),
+        stroke: track.style.lineColor ?? config.lineColor,
+        'stroke-width': track.style.lineWidth ?? config.lineWidth,
+        ...(track.style.lineOpacity !== undefined ? { 'stroke-opacity': track.style.lineOpacity } : {})
+      }));
+
+      result.geojson = features.length === 1 ? features[0] : GeoJsonUtil.toFeatureCollection(features, projectionResult.bounds);
+      result.bounds = projectionResult.bounds;
+    }
+
+    return result;
   }
   
   /**
@@ -0,0 +1,333 @@
+/**
+ * Map furniture overlays
+ * Draws scale bar, north arrow, tile attribution and the stats panel on the final image
+ */
+
+import { createCanvas, loadImage } from 'canvas';
+import { ActivityStats, AttributionOptions, GeoBounds, NorthArrowOptions, OverlayCorner, ScaleBarOptions, TrajmapConfig } from '../types';
+import { MercatorUtil } from '../utils/mercator';
+import { GeoUtil } from '../utils/geo';
+import { TileProviderRegistry } from '../tiles/providers';
+import { PanelRenderer } from './panel';
+
+/**
+ * Overlay renderer
+ */
+export class OverlayRenderer {
+  /**
+   * Whether the configuration asks for any overlay
+   */
+  static hasOverlays(config: TrajmapConfig): boolean {
+    return Boolean(config.scaleBar || config.northArrow || config.panel || OverlayRenderer.getAttributionText(config));
+  }
+
+  /**
+   * Attribution text to draw, undefined when opted out or there is nothing to credit
+   * Custom text replaces the provider credit, or follows it when the provider requires attribution
+   */
+  static getAttributionText(config: TrajmapConfig): string | undefined {
+    if (config.attribution === false) {
+      return undefined;
+    }
+
+    const options = typeof config.attribution === 'object' ? config.attribution : {};
+    const provider = TileProviderRegistry.resolve(config.tileProvider);
+    const credit = OverlayRenderer.toPlainText(provider.attribution);
+    const text = OverlayRenderer.toPlainText(options.text);
+
+    if (provider.attributionRequired && credit) {
+      return text ? `${credit} | ${text}` : credit;
+    }
+
+    return options.text !== undefined ? text : credit;
+  }
+
+  /**
+   * Reduce HTML markup from provider metadata (e.g. MBTiles) to plain text, undefined when empty
+   */
+  private static toPlainText(text?: string): string | undefined {
+    return text
+      ?.replace(/<[^>]*>/g, '')
+      .replace(/&copy;/g, '©')
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim() || undefined;
+  }
+
+  /**
+   * Draw configured overlays onto the final image
+   * @param image - Final PNG image
+   * @param config - Rendering configuration
+   * @param bounds - Geographic bounds covered by the image
+   * @param zoom - Zoom level the map was rendered at
+   * @param stats - Activity statistics, required for the stats panel
+   */
+  static async draw(
+    image: Buffer,
+    config: TrajmapConfig,
+    bounds: GeoBounds,
+    zoom: number,
+    stats?: ActivityStats
+  ): Promise<Buffer> {
+    const panel = config.panel && stats ? config.panel : undefined;
+    PanelRenderer.registerFonts(panel?.fonts);
+
+    const background = await loadImage(image);
+    const panelHeight = panel ? PanelRenderer.getHeight(panel, stats!) : 0;
+    const extension = panel?.mode === 'extend' ? panelHeight : 0;
+    const panelOnTop = (panel?.position ?? 'top') === 'top';
+
+    const canvas = createCanvas(background.width, background.height + extension);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(background, 0, panelOnTop ? extension : 0);
+
+    // Map furniture keeps clear of the panel
+    const layout = new CornerLayout(canvas.width, canvas.height - panelHeight, panelOnTop ? panelHeight : 0);
+
+    if (config.scaleBar) {
+      const options = config.scaleBar === true ? {} : config.scaleBar;
+      const metersPerPixel = OverlayRenderer.getMetersPerPixel(bounds, zoom, canvas.width);
+      OverlayRenderer.drawScaleBar(ctx, options, metersPerPixel, layout);
+    }
+
+    if (config.northArrow) {
+      OverlayRenderer.drawNorthArrow(ctx, config.northArrow === true ? {} : config.northArrow, layout);
+    }
+
+    const attribution = OverlayRenderer.getAttributionText(config);
+    if (attribution) {
+      const options = typeof config.attribution === 'object' ? config.attribution : {};
+      OverlayRenderer.drawAttribution(ctx, attribution, options, layout);
+    }
+
+    if (panel) {
+      PanelRenderer.draw(ctx, panel, stats!, panelOnTop ? 0 : canvas.height - panelHeight);
+    }
+
+    return canvas.toBuffer('image/png');
+  }
+
+  /**
+   * Vertical offset of the map inside the final image, non-zero when a top panel extends the canvas
+   */
+  static getMapOffset(config: TrajmapConfig, stats?: ActivityStats): number {
+    const panel = config.panel;
+    if (!panel || !stats || panel.mode !== 'extend' || (panel.position ?? 'top') !== 'top') {
+      return 0;
+    }
+    return PanelRenderer.getHeight(panel, stats);
+  }
+
+  /**
+   * Ground meters per output pixel at the vertical center of the image
+   * @param bounds - Geographic bounds covered by the image
+   * @param zoom - Zoom level the map was rendered at
+   * @param imageWidth - Output image width in pixels
+   */
+  static getMetersPerPixel(bounds: GeoBounds, zoom: number, imageWidth: number): number {
+    const topLeft = MercatorUtil.latLngToWorldPixel({ lat: bounds.maxLat, lng: bounds.minLng }, zoom);
+    const bottomRight = MercatorUtil.latLngToWorldPixel({ lat: bounds.minLat, lng: bounds.maxLng }, zoom);
+
+    // Mercator scale varies with latitude, so take it at the projected center rather than the mean latitude
+    const center = MercatorUtil.worldPixelToLatLng(
+      { x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 },
+      zoom
+    );
+
+    // The map is resampled from its width at this zoom to the output width
+    const mapWidth = bottomRight.x - topLeft.x;
+    return MercatorUtil.metersPerPixel(center.lat, zoom) * mapWidth / imageWidth;
+  }
+
+  /**
+   * Longest round scale bar length (1, 2 or 5 × 10^n) that fits in maxWidth pixels
+   */
+  static getScaleBarLength(
+    metersPerPixel: number,
+    maxWidth: number,
+    units: 'metric' | 'imperial' = 'metric'
+  ): { pixels: number; label: string } {
+    const maxMeters = metersPerPixel * maxWidth;
+
+    let unitLength: number;
+    let unit: string;
+    if (units === 'imperial') {
+      const useMiles = maxMeters >= GeoUtil.METERS_PER_MILE;
+      unitLength = useMiles ? GeoUtil.METERS_PER_MILE : 0.3048;
+      unit = useMiles ? 'mi' : 'ft';
+    } else {
+      const useKilometers = maxMeters >= 1000;
+      unitLength = useKilometers ? 1000 : 1;
+      unit = useKilometers ? 'km' : 'm';
+    }
+
+    const maxValue = maxMeters / unitLength;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(maxValue)));
+    const factor = [5, 2, 1].find(f => f * magnitude <= maxValue) ?? 1;
+    const value = factor * magnitude;
+
+    return {
+      pixels: value * unitLength / metersPerPixel,
+      label: `${parseFloat(value.toPrecision(6))} ${unit}`
+    };
+  }
+
+  /**
+   * Draw a scale bar with end ticks and its length above it
+   */
+  static drawScaleBar(ctx: any, options: ScaleBarOptions, metersPerPixel: number, layout: CornerLayout): void {
+    const { pixels, label } = OverlayRenderer.getScaleBarLength(
+      metersPerPixel,
+      options.maxWidth ?? 100,
+      options.units
+    );
+
+    const inset = 4;
+    const tickHeight = 6;
+    const textHeight = 12;
+    ctx.save();
+    ctx.font = options.font || '11px sans-serif';
+
+    const width = Math.max(pixels, ctx.measureText(label).width) + inset * 2;
+    const height = textHeight + tickHeight + inset * 3;
+    const { x, y } = layout.reserve(options.position || 'bottom-left', width, height, options.padding ?? 10);
+
+    ctx.fillStyle = options.background || 'rgba(255, 255, 255, 0.7)';
+    ctx.fillRect(x, y, width, height);
+
+    const color = options.color || '#333333';
+    const barY = y + height - inset - 1;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = options.lineWidth ?? 2;
+    ctx.lineCap = 'square';
+    ctx.beginPath();
+    ctx.moveTo(x + inset, barY - tickHeight);
+    ctx.lineTo(x + inset, barY);
+    ctx.lineTo(x + inset + pixels, barY);
+    ctx.lineTo(x + inset + pixels, barY - tickHeight);
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillText(label, x + inset + pixels / 2, y + inset);
+    ctx.restore();
+  }
+
+  /**
+   * Draw attribution text on a semi-transparent strip
+   * The font scales with the image and shrinks, then truncates, to fit the image width
+   */
+  static drawAttribution(ctx: any, text: string, options: AttributionOptions, layout: CornerLayout): void {
+    const padding = options.padding ?? 0;
+    const family = options.fontFamily || 'sans-serif';
+    const maxWidth = ctx.canvas.width - padding * 2;
+    let fontSize = options.fontSize ??
+      Math.min(Math.max(Math.round(Math.min(ctx.canvas.width, ctx.canvas.height) / 60), 9), 24);
+
+    ctx.save();
+    ctx.font = `${fontSize}px ${family}`;
+    const inset = () => Math.ceil(fontSize / 3);
+
+    while (ctx.measureText(text).width + inset() * 2 > maxWidth && fontSize > 8) {
+      fontSize--;
+      ctx.font = `${fontSize}px ${family}`;
+    }
+
+    let label = text;
+    while (label.length > 1 && ctx.measureText(label).width + inset() * 2 > maxWidth) {
+      label = label.slice(0, -2) + '…';
+    }
+
+    const width = Math.min(ctx.measureText(label).width + inset() * 2, maxWidth);
+    const height = Math.ceil(fontSize * 1.2) + inset();
+    const { x, y } = layout.reserve(options.position || 'bottom-right', width, height, padding);
+
+    ctx.fillStyle = options.background || 'rgba(255, 255, 255, 0.7)';
+    ctx.fillRect(x, y, width, height);
+
+    ctx.fillStyle = options.color || '#333333';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, x + inset(), y + height / 2);
+    ctx.restore();
+  }
+
+  /**
+   * Draw a north arrow; Web Mercator output is always north-up
+   */
+  static drawNorthArrow(ctx: any, options: NorthArrowOptions, layout: CornerLayout): void {
+    const size = options.size ?? 24;
+    const inset = 4;
+    const textHeight = 12;
+    const arrowWidth = size * 0.6;
+
+    const width = Math.max(arrowWidth, textHeight) + inset * 2;
+    const height = textHeight + size + inset * 3;
+    const { x, y } = layout.reserve(options.position || 'top-right', width, height, options.padding ?? 10);
+    const color = options.color || '#333333';
+
+    ctx.save();
+    ctx.fillStyle = options.background || 'rgba(255, 255, 255, 0.7)';
+    ctx.fillRect(x, y, width, height);
+
+    ctx.fillStyle = color;
+    ctx.font = options.font || 'bold 11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillText('N', x + width / 2, y + inset);
+
+    // Two-tone arrowhead: filled left half, outlined right half
+    const centerX = x + width / 2;
+    const top = y + inset * 2 + textHeight;
+    const bottom = top + size;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.lineJoin = 'miter';
+
+    ctx.beginPath();
+    ctx.moveTo(centerX, top);
+    ctx.lineTo(centerX - arrowWidth / 2, bottom);
+    ctx.lineTo(centerX, bottom - size * 0.25);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.beginPath();
+    ctx.moveTo(centerX, top);
+    ctx.lineTo(centerX + arrowWidth / 2, bottom);
+    ctx.lineTo(centerX, bottom - size * 0.25);
+    ctx.closePath();
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+/**
+ * Stacks overlay boxes inward from each image corner so items sharing a corner do not overlap
+ * The area starts `top` pixels down the image when a header panel sits above it
+ */
+export class CornerLayout {
+  private readonly offsets = new Map<OverlayCorner, number>();
+
+  constructor(
+    private readonly width: number,
+    private readonly height: number,
+    private readonly top: number = 0
+  ) {}
+
+  /**
+   * Reserve a box in a corner and return its top-left position
+   */
+  reserve(corner: OverlayCorner, boxWidth: number, boxHeight: number, padding: number): { x: number; y: number } {
+    const offset = this.offsets.get(corner) ?? 0;
+    this.offsets.set(corner, offset + boxHeight + 4);
+
+    const left = corner.endsWith('left');
+    const top = corner.startsWith('top');
+
+    return {
+      x: left ? padding : this.width - padding - boxWidth,
+      y: this.top + (top ? padding + offset : this.height - padding - offset - boxHeight)
+    };
+  }
+}
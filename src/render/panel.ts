@@ -0,0 +1,255 @@
+/**
+ * Title and activity stats panel
+ * Draws a header or footer with title, subtitle, date and stats computed from the track points
+ */
+
+import { registerFont } from 'canvas';
+import { ActivityStatField, ActivityStats, FontFile, StatsPanelOptions } from '../types';
+import { GeoUtil } from '../utils/geo';
+import { StatsUtil } from '../utils/stats';
+
+const DEFAULT_STATS: ActivityStatField[] = ['distance', 'duration', 'pace', 'elevationGain'];
+
+const STAT_LABELS: Record<ActivityStatField, string> = {
+  distance: 'Distance',
+  duration: 'Time',
+  pace: 'Pace',
+  speed: 'Speed',
+  elevationGain: 'Elevation'
+};
+
+// node-canvas keeps registered fonts for the lifetime of the process
+const registeredFonts = new Set<string>();
+
+/**
+ * Stats panel renderer
+ */
+export class PanelRenderer {
+  /**
+   * Register local font files with node-canvas, once per file
+   * Must run before the canvas the fonts are used on is created
+   */
+  static registerFonts(fonts: FontFile[] = []): void {
+    for (const font of fonts) {
+      const key = `${font.path}|${font.family}|${font.weight ?? ''}|${font.style ?? ''}`;
+      if (registeredFonts.has(key)) {
+        continue;
+      }
+
+      registerFont(font.path, { family: font.family, weight: font.weight, style: font.style });
+      registeredFonts.add(key);
+    }
+  }
+
+  /**
+   * Panel height in pixels; depends only on the options and which lines have content
+   */
+  static getHeight(options: StatsPanelOptions, stats: ActivityStats): number {
+    const { padding, titleSize, textSize } = PanelRenderer.getSizes(options);
+    const textHeight = PanelRenderer.getTextHeight(options, stats);
+    const statsHeight = PanelRenderer.getStatItems(options, stats).length > 0
+      ? PanelRenderer.getStatHeight(textSize)
+      : 0;
+
+    if ((options.layout ?? 'stacked') === 'inline') {
+      return Math.ceil(Math.max(textHeight, statsHeight, titleSize) + padding * 2);
+    }
+
+    const gap = textHeight > 0 && statsHeight > 0 ? padding / 2 : 0;
+    return Math.ceil(Math.max(textHeight + gap + statsHeight, titleSize) + padding * 2);
+  }
+
+  /**
+   * Subtitle line: subtitle and date joined with a middle dot
+   */
+  static getSubtitle(options: StatsPanelOptions, stats: ActivityStats): string | undefined {
+    let date: string | undefined;
+    if (typeof options.date === 'string') {
+      date = options.date;
+    } else if (options.date && stats.startTime) {
+      date = stats.startTime.toISOString().slice(0, 10);
+    }
+
+    const parts = [options.subtitle, date].filter(part => part);
+    return parts.length > 0 ? parts.join(' · ') : undefined;
+  }
+
+  /**
+   * Formatted stat values in configured order, skipping stats the track has no data for
+   */
+  static getStatItems(options: StatsPanelOptions, stats: ActivityStats): { label: string; value: string }[] {
+    const imperial = options.units === 'imperial';
+    const items: { label: string; value: string }[] = [];
+
+    for (const field of options.stats ?? DEFAULT_STATS) {
+      let value: string | undefined;
+
+      switch (field) {
+        case 'distance':
+          value = PanelRenderer.formatDistance(stats.distance, imperial);
+          break;
+        case 'duration':
+          value = stats.duration !== undefined ? StatsUtil.formatDuration(stats.duration) : undefined;
+          break;
+        case 'pace':
+          if (stats.pace !== undefined) {
+            const pace = imperial ? stats.pace * GeoUtil.METERS_PER_MILE / 1000 : stats.pace;
+            value = `${StatsUtil.formatDuration(pace)} /${imperial ? 'mi' : 'km'}`;
+          }
+          break;
+        case 'speed':
+          if (stats.speed !== undefined) {
+            value = imperial
+              ? `${(stats.speed * 3600 / GeoUtil.METERS_PER_MILE).toFixed(1)} mph`
+              : `${(stats.speed * 3.6).toFixed(1)} km/h`;
+          }
+          break;
+        case 'elevationGain':
+          if (stats.elevationGain !== undefined) {
+            value = imperial
+              ? `${Math.round(stats.elevationGain / 0.3048)} ft`
+              : `${Math.round(stats.elevationGain)} m`;
+          }
+          break;
+      }
+
+      if (value !== undefined) {
+        items.push({ label: STAT_LABELS[field], value });
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Draw the panel across the full canvas width
+   * @param ctx - Canvas 2D context
+   * @param options - Panel options
+   * @param stats - Activity statistics of all tracks
+   * @param y - Top of the panel
+   */
+  static draw(ctx: any, options: StatsPanelOptions, stats: ActivityStats, y: number): void {
+    const width = ctx.canvas.width;
+    const height = PanelRenderer.getHeight(options, stats);
+    const { padding, titleSize, textSize } = PanelRenderer.getSizes(options);
+    const family = options.fontFamily || 'sans-serif';
+    const color = options.color || '#222222';
+    const secondaryColor = options.secondaryColor || '#666666';
+    const inline = (options.layout ?? 'stacked') === 'inline';
+
+    ctx.save();
+    ctx.fillStyle = options.background || 'rgba(255, 255, 255, 0.85)';
+    ctx.fillRect(0, y, width, height);
+    ctx.textBaseline = 'top';
+
+    // Stat blocks: value above a smaller label, laid out left to right
+    const items = PanelRenderer.getStatItems(options, stats);
+    const valueFont = `bold ${Math.round(textSize * 1.25)}px ${family}`;
+    const labelFont = `${Math.round(textSize * 0.85)}px ${family}`;
+    const blockWidths = items.map(item => {
+      ctx.font = valueFont;
+      const valueWidth = ctx.measureText(item.value).width;
+      ctx.font = labelFont;
+      return Math.max(valueWidth, ctx.measureText(item.label).width);
+    });
+    const statGap = padding * 1.5;
+    const statsWidth = blockWidths.reduce((sum, w) => sum + w, 0) + statGap * Math.max(items.length - 1, 0);
+
+    const textWidth = inline && items.length > 0 ? width - padding * 3 - statsWidth : width - padding * 2;
+    let textY = y + padding;
+    if (inline) {
+      textY += (height - padding * 2 - PanelRenderer.getTextHeight(options, stats)) / 2;
+    }
+
+    ctx.textAlign = 'left';
+    if (options.title) {
+      ctx.font = `bold ${titleSize}px ${family}`;
+      ctx.fillStyle = color;
+      ctx.fillText(PanelRenderer.fitText(ctx, options.title, textWidth), padding, textY);
+      textY += titleSize * 1.25;
+    }
+
+    const subtitle = PanelRenderer.getSubtitle(options, stats);
+    if (subtitle) {
+      ctx.font = `${textSize}px ${family}`;
+      ctx.fillStyle = secondaryColor;
+      ctx.fillText(PanelRenderer.fitText(ctx, subtitle, textWidth), padding, textY);
+      textY += textSize * 1.4;
+    }
+
+    if (items.length > 0) {
+      const statHeight = PanelRenderer.getStatHeight(textSize);
+      let x = inline ? width - padding - statsWidth : padding;
+      const top = inline ? y + (height - statHeight) / 2 : textY + (textY > y + padding ? padding / 2 : 0);
+
+      items.forEach((item, i) => {
+        // Stacked stats that run past the right edge are dropped rather than clipped
+        if (!inline && i > 0 && x + blockWidths[i] > width - padding) {
+          return;
+        }
+
+        ctx.font = valueFont;
+        ctx.fillStyle = color;
+        ctx.fillText(item.value, x, top);
+
+        ctx.font = labelFont;
+        ctx.fillStyle = secondaryColor;
+        ctx.fillText(item.label, x, top + textSize * 1.25 * 1.2);
+
+        x += blockWidths[i] + statGap;
+      });
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Format a distance in km (or m under 1 km), mi (or ft under 0.1 mi)
+   */
+  private static formatDistance(meters: number, imperial: boolean): string {
+    if (imperial) {
+      const miles = meters / GeoUtil.METERS_PER_MILE;
+      return miles >= 0.1 ? `${miles.toFixed(2)} mi` : `${Math.round(meters / 0.3048)} ft`;
+    }
+
+    return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+  }
+
+  /**
+   * Height of the title and subtitle lines
+   */
+  private static getTextHeight(options: StatsPanelOptions, stats: ActivityStats): number {
+    const { titleSize, textSize } = PanelRenderer.getSizes(options);
+    return (options.title ? titleSize * 1.25 : 0) +
+      (PanelRenderer.getSubtitle(options, stats) ? textSize * 1.4 : 0);
+  }
+
+  /**
+   * Height of a stat block: value line plus label line
+   */
+  private static getStatHeight(textSize: number): number {
+    return textSize * 1.25 * 1.2 + textSize * 0.85 * 1.3;
+  }
+
+  /**
+   * Padding and font sizes with defaults applied
+   */
+  private static getSizes(options: StatsPanelOptions): { padding: number; titleSize: number; textSize: number } {
+    return {
+      padding: options.padding ?? 12,
+      titleSize: options.titleSize ?? 20,
+      textSize: options.textSize ?? 13
+    };
+  }
+
+  /**
+   * Truncate text with an ellipsis to fit maxWidth in the current font
+   */
+  private static fitText(ctx: any, text: string, maxWidth: number): string {
+    let fitted = text;
+    while (fitted.length > 1 && ctx.measureText(fitted).width > maxWidth) {
+      fitted = fitted.slice(0, -2) + '…';
+    }
+    return fitted;
+  }
+}
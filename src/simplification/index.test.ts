@@ -0,0 +1,87 @@
+import { SimplificationService } from './index';
+import { PixelPoint, SimplifyAlgorithm, TrackPoint } from '../types';
+
+const algorithms: SimplifyAlgorithm[] = ['douglas-peucker', 'visvalingam'];
+
+/**
+ * Horizontal pixel line with a single bump of the given height in the middle
+ */
+function bump(count: number, height: number): PixelPoint[] {
+  const middle = Math.floor(count / 2);
+  return Array.from({ length: count }, (_, x) => ({ x: x * 10, y: x === middle ? height : 0 }));
+}
+
+/**
+ * Indices of the kept points
+ */
+function kept(keep: boolean[]): number[] {
+  return keep.flatMap((k, i) => (k ? [i] : []));
+}
+
+describe('SimplificationService.douglasPeucker', () => {
+  it('reduces a straight line to its endpoints', () => {
+    expect(kept(SimplificationService.douglasPeucker(bump(20, 0), 1))).toEqual([0, 19]);
+  });
+
+  it('keeps points farther than the tolerance from the line', () => {
+    expect(kept(SimplificationService.douglasPeucker(bump(5, 5), 4))).toEqual([0, 2, 4]);
+    expect(kept(SimplificationService.douglasPeucker(bump(5, 3), 4))).toEqual([0, 4]);
+  });
+
+  it('handles long zigzag tracks without recursion limits', () => {
+    const points = Array.from({ length: 200000 }, (_, i) => ({ x: i, y: (i % 2) * 10 }));
+
+    expect(SimplificationService.douglasPeucker(points, 1).every(k => k)).toBe(true);
+  });
+});
+
+describe('SimplificationService.visvalingamWhyatt', () => {
+  it('reduces a straight line to its endpoints', () => {
+    expect(kept(SimplificationService.visvalingamWhyatt(bump(20, 0), 1))).toEqual([0, 19]);
+  });
+
+  it('keeps points whose effective area is at least tolerance squared', () => {
+    // Once its neighbours are gone the bump spans 40 px of base, so its area is 20 × height
+    expect(kept(SimplificationService.visvalingamWhyatt(bump(5, 2), 4))).toEqual([0, 2, 4]);
+    expect(kept(SimplificationService.visvalingamWhyatt(bump(5, 0.5), 4))).toEqual([0, 4]);
+  });
+});
+
+describe('SimplificationService.simplify', () => {
+  // Straight eastbound track with a northward detour of about 22 m in the middle
+  const track: TrackPoint[] = Array.from({ length: 21 }, (_, i) => ({
+    lat: 48 + (i === 10 ? 0.0002 : 0),
+    lng: 11 + i * 0.001,
+    time: new Date(Date.UTC(2024, 4, 1, 8, 0, i)),
+    attributes: { hr: 120 + i }
+  }));
+
+  it.each(algorithms)('returns short tracks and zero tolerance unchanged (%s)', algorithm => {
+    const short = track.slice(0, 2);
+
+    expect(SimplificationService.simplify(short, 15, 1, algorithm)).toBe(short);
+    expect(SimplificationService.simplify(track, 15, 0, algorithm)).toBe(track);
+  });
+
+  it.each(algorithms)('keeps endpoints and the original point objects in order (%s)', algorithm => {
+    const simplified = SimplificationService.simplify(track, 17, 1, algorithm);
+    const indices = simplified.map(point => track.indexOf(point));
+
+    expect(simplified.length).toBeLessThan(track.length);
+    expect(indices[0]).toBe(0);
+    expect(indices[indices.length - 1]).toBe(20);
+    expect(indices).toContain(10);
+    expect(indices).toEqual([...indices].sort((a, b) => a - b));
+  });
+
+  it.each(algorithms)('drops details smaller than the tolerance at the zoom level (%s)', algorithm => {
+    // The detour is well under a pixel at zoom 10 and several pixels at zoom 17
+    expect(SimplificationService.simplify(track, 10, 1, algorithm)).toEqual([track[0], track[20]]);
+    expect(SimplificationService.simplify(track, 17, 1, algorithm)).toContain(track[10]);
+  });
+
+  it('rejects unknown algorithms', () => {
+    expect(() => SimplificationService.simplify(track, 15, 1, 'radial' as SimplifyAlgorithm))
+      .toThrow('Unknown simplification algorithm: radial');
+  });
+});
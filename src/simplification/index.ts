@@ -0,0 +1,231 @@
+/**
+ * Track simplification module
+ * Removes points that would not be visible at the output image scale
+ */
+
+import { LatLng, PixelPoint, SimplifyAlgorithm } from '../types';
+import { MercatorUtil } from '../utils/mercator';
+
+/**
+ * Simplification service
+ */
+export class SimplificationService {
+  /**
+   * Simplify GPS points with a tolerance expressed in map pixels at the given zoom level
+   * First and last points are always kept
+   * @param gpsPoints - GPS points to simplify
+   * @param zoom - Zoom level the track is drawn at
+   * @param tolerance - Tolerance in pixels at that zoom level
+   * @param algorithm - Simplification algorithm
+   */
+  static simplify<T extends LatLng>(
+    gpsPoints: T[],
+    zoom: number,
+    tolerance: number,
+    algorithm: SimplifyAlgorithm = 'douglas-peucker'
+  ): T[] {
+    if (gpsPoints.length <= 2 || tolerance <= 0) {
+      return gpsPoints;
+    }
+
+    const pixelPoints = gpsPoints.map(point => MercatorUtil.latLngToWorldPixel(point, zoom));
+
+    let keep: boolean[];
+    switch (algorithm) {
+      case 'douglas-peucker':
+        keep = SimplificationService.douglasPeucker(pixelPoints, tolerance);
+        break;
+      case 'visvalingam':
+        keep = SimplificationService.visvalingamWhyatt(pixelPoints, tolerance);
+        break;
+      default:
+        throw new Error(`Unknown simplification algorithm: ${algorithm}`);
+    }
+
+    return gpsPoints.filter((_, i) => keep[i]);
+  }
+
+  /**
+   * Douglas-Peucker: keep points farther than tolerance from the simplified line
+   */
+  static douglasPeucker(points: PixelPoint[], tolerance: number): boolean[] {
+    const keep = new Array<boolean>(points.length).fill(false);
+    const sqTolerance = tolerance * tolerance;
+    keep[0] = true;
+    keep[points.length - 1] = true;
+
+    // Iterative to avoid call stack limits on long tracks
+    const stack: [number, number][] = [[0, points.length - 1]];
+
+    while (stack.length > 0) {
+      const [first, last] = stack.pop()!;
+      let maxSqDistance = 0;
+      let index = -1;
+
+      for (let i = first + 1; i < last; i++) {
+        const sqDistance = SimplificationService.sqSegmentDistance(points[i], points[first], points[last]);
+        if (sqDistance > maxSqDistance) {
+          maxSqDistance = sqDistance;
+          index = i;
+        }
+      }
+
+      if (index !== -1 && maxSqDistance > sqTolerance) {
+        keep[index] = true;
+        stack.push([first, index], [index, last]);
+      }
+    }
+
+    return keep;
+  }
+
+  /**
+   * Visvalingam-Whyatt: repeatedly drop the point forming the smallest triangle
+   * until every remaining triangle area is at least tolerance²
+   */
+  static visvalingamWhyatt(points: PixelPoint[], tolerance: number): boolean[] {
+    const count = points.length;
+    const keep = new Array<boolean>(count).fill(true);
+    const minArea = tolerance * tolerance;
+
+    // Doubly linked list over remaining points
+    const prev = Array.from({ length: count }, (_, i) => i - 1);
+    const next = Array.from({ length: count }, (_, i) => i + 1);
+    const areas = new Array<number>(count).fill(Infinity);
+
+    const heap = new MinHeap();
+    for (let i = 1; i < count - 1; i++) {
+      areas[i] = SimplificationService.triangleArea(points[i - 1], points[i], points[i + 1]);
+      heap.push(areas[i], i);
+    }
+
+    while (heap.size > 0) {
+      const { area, index } = heap.pop()!;
+
+      // Skip stale heap entries of removed or updated points
+      if (!keep[index] || area !== areas[index]) {
+        continue;
+      }
+
+      if (area >= minArea) {
+        break;
+      }
+
+      keep[index] = false;
+      const before = prev[index];
+      const after = next[index];
+      next[before] = after;
+      prev[after] = before;
+
+      // Recompute neighbours; an area never drops below the one just removed,
+      // so points are eliminated in non-decreasing order of effective area
+      for (const neighbour of [before, after]) {
+        if (neighbour > 0 && neighbour < count - 1) {
+          areas[neighbour] = Math.max(
+            area,
+            SimplificationService.triangleArea(points[prev[neighbour]], points[neighbour], points[next[neighbour]])
+          );
+          heap.push(areas[neighbour], neighbour);
+        }
+      }
+    }
+
+    return keep;
+  }
+
+  /**
+   * Squared distance from point to segment
+   */
+  private static sqSegmentDistance(point: PixelPoint, start: PixelPoint, end: PixelPoint): number {
+    let x = start.x;
+    let y = start.y;
+    let dx = end.x - x;
+    let dy = end.y - y;
+
+    if (dx !== 0 || dy !== 0) {
+      const t = ((point.x - x) * dx + (point.y - y) * dy) / (dx * dx + dy * dy);
+
+      if (t > 1) {
+        x = end.x;
+        y = end.y;
+      } else if (t > 0) {
+        x += dx * t;
+        y += dy * t;
+      }
+    }
+
+    dx = point.x - x;
+    dy = point.y - y;
+
+    return dx * dx + dy * dy;
+  }
+
+  /**
+   * Area of the triangle formed by three points
+   */
+  private static triangleArea(a: PixelPoint, b: PixelPoint, c: PixelPoint): number {
+    return Math.abs((a.x - c.x) * (b.y - a.y) - (a.x - b.x) * (c.y - a.y)) / 2;
+  }
+}
+
+/**
+ * Binary min-heap of (area, index) entries
+ */
+class MinHeap {
+  private readonly items: { area: number; index: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(area: number, index: number): void {
+    const items = this.items;
+    items.push({ area, index });
+
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].area <= items[i].area) {
+        break;
+      }
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { area: number; index: number } | undefined {
+    const items = this.items;
+    if (items.length === 0) {
+      return undefined;
+    }
+
+    const top = items[0];
+    const last = items.pop()!;
+
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+
+        if (left < items.length && items[left].area < items[smallest].area) {
+          smallest = left;
+        }
+        if (right < items.length && items[right].area < items[smallest].area) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+}
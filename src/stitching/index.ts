@@ -13,11 +13,13 @@ import { createCanvas, loadImage, CanvasRenderingContext2D } from 'canvas';
 export class StitchingService {
   /**
    * Stitch tiles into a single image and crop to target region
+   * @param tileSize - Native tile size of the provider, overrides the retina-based size
    */
   static async stitchAndCrop(
     tileGrid: TileGrid,
     zoom: number,
-    retina: boolean = false
+    retina: boolean = false,
+    tileSize: number = MercatorUtil.getTileSize(retina)
   ): Promise<StitchingResult> {
     // Calculate the actual tile grid dimensions
     const coords = tileGrid.tiles.map(t => t.coord);
@@ -28,7 +30,6 @@ export class StitchingService {
     const cols = maxX - minX + 1;
     const rows = maxY - minY + 1;
     
-    const tileSize = MercatorUtil.getTileSize(retina);
     const fullWidth = cols * tileSize;
     const fullHeight = rows * tileSize;
 
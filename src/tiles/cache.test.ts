@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TileCache } from './cache';
+import { TileProvider } from '../types';
+
+const provider: TileProvider = { name: 'test', url: 'https://tiles.example.com/{z}/{x}/{y}.png' };
+const tile = Buffer.alloc(1000, 1);
+
+/**
+ * Recursively list files under a directory
+ */
+function listFiles(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(directory, entry.name);
+    return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+  });
+}
+
+describe('TileCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'trajmap-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('returns null for a tile that is not cached', async () => {
+    const cache = new TileCache({ directory });
+
+    expect(await cache.read(provider, { x: 1, y: 2, z: 3 })).toBeNull();
+  });
+
+  it('stores a tile with its metadata and leaves no temporary files', async () => {
+    const cache = new TileCache({ directory });
+    const coord = { x: 1, y: 2, z: 3 };
+    await cache.write(provider, coord, false, tile, { 'cache-control': 'max-age=60', etag: '"v1"' });
+
+    const entry = await cache.read(provider, coord);
+    expect(entry?.buffer.equals(tile)).toBe(true);
+    expect(entry?.fresh).toBe(true);
+    expect(entry?.meta.etag).toBe('"v1"');
+    expect(entry!.meta.expiresAt - entry!.meta.fetchedAt).toBe(60000);
+
+    const tilePath = cache.getTilePath(provider, coord);
+    expect(listFiles(directory).sort()).toEqual([tilePath, `${tilePath}.json`]);
+  });
+
+  it('does not store no-store responses', async () => {
+    const cache = new TileCache({ directory });
+    await cache.write(provider, { x: 1, y: 2, z: 3 }, false, tile, { 'cache-control': 'no-store' });
+
+    expect(listFiles(directory)).toEqual([]);
+  });
+
+  it('keeps retina tiles apart', async () => {
+    const cache = new TileCache({ directory });
+    const coord = { x: 1, y: 2, z: 3 };
+    await cache.write(provider, coord, true, tile);
+
+    expect(await cache.read(provider, coord, false)).toBeNull();
+    expect(await cache.read(provider, coord, true)).not.toBeNull();
+  });
+
+  describe('revalidation', () => {
+    it.each([
+      ['no-cache', { 'cache-control': 'no-cache' }],
+      ['max-age=0', { 'cache-control': 'max-age=0' }]
+    ])('marks %s entries stale', async (_, headers) => {
+      const cache = new TileCache({ directory });
+      const coord = { x: 1, y: 2, z: 3 };
+      await cache.write(provider, coord, false, tile, headers);
+
+      expect((await cache.read(provider, coord))?.fresh).toBe(false);
+    });
+
+    it('expires entries after the configured ttl', async () => {
+      const cache = new TileCache({ directory, ttl: 0 });
+      const coord = { x: 1, y: 2, z: 3 };
+      await cache.write(provider, coord, false, tile);
+
+      expect((await cache.read(provider, coord))?.fresh).toBe(false);
+    });
+
+    it('builds conditional headers from the stored validators', async () => {
+      const cache = new TileCache({ directory });
+      const coord = { x: 1, y: 2, z: 3 };
+      await cache.write(provider, coord, false, tile, {
+        'cache-control': 'no-cache',
+        etag: '"v1"',
+        'last-modified': 'Wed, 01 May 2024 08:00:00 GMT'
+      });
+
+      const entry = await cache.read(provider, coord);
+      expect(TileCache.getRevalidationHeaders(entry!)).toEqual({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Wed, 01 May 2024 08:00:00 GMT'
+      });
+    });
+
+    it('refreshes metadata after 304 Not Modified, keeping validators the response omits', async () => {
+      const cache = new TileCache({ directory });
+      const coord = { x: 1, y: 2, z: 3 };
+      await cache.write(provider, coord, false, tile, { 'cache-control': 'no-cache', etag: '"v1"' });
+
+      const stale = await cache.read(provider, coord);
+      await cache.refresh(provider, coord, false, stale!, { 'cache-control': 'max-age=60' });
+
+      const entry = await cache.read(provider, coord);
+      expect(entry?.fresh).toBe(true);
+      expect(entry?.meta.etag).toBe('"v1"');
+      expect(entry?.buffer.equals(tile)).toBe(true);
+    });
+  });
+
+  describe('prune', () => {
+    /**
+     * Write tiles 0..count-1 with access times one minute apart, oldest first
+     */
+    async function fill(cache: TileCache, count: number): Promise<string[]> {
+      const paths: string[] = [];
+
+      for (let x = 0; x < count; x++) {
+        const coord = { x, y: 0, z: 1 };
+        await cache.write(provider, coord, false, tile);
+
+        const tilePath = cache.getTilePath(provider, coord);
+        const accessed = new Date(Date.now() - (count - x) * 60000);
+        fs.utimesSync(tilePath, accessed, accessed);
+        paths.push(tilePath);
+      }
+
+      return paths;
+    }
+
+    it('does nothing without maxSize', async () => {
+      const cache = new TileCache({ directory });
+      const paths = await fill(cache, 3);
+      await cache.prune();
+
+      expect(paths.every(tilePath => fs.existsSync(tilePath))).toBe(true);
+    });
+
+    it('evicts least recently used tiles and their metadata until the cache fits', async () => {
+      // Room for two tiles including their metadata
+      const cache = new TileCache({ directory, maxSize: 2500 });
+      const paths = await fill(cache, 4);
+
+      // Reading the oldest tile makes it the most recently used
+      await cache.read(provider, { x: 0, y: 0, z: 1 });
+      await cache.prune();
+
+      expect(paths.map(tilePath => fs.existsSync(tilePath))).toEqual([true, false, false, true]);
+      expect(fs.existsSync(`${paths[1]}.json`)).toBe(false);
+      expect(fs.existsSync(`${paths[0]}.json`)).toBe(true);
+    });
+  });
+});
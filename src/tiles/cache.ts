@@ -0,0 +1,269 @@
+/**
+ * Tile cache module
+ * Persists fetched tiles on disk with TTL, HTTP revalidation and LRU size limits
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TileCacheOptions, TileCoord, TileProvider } from '../types';
+
+const DEFAULT_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
+
+// Distinguishes temporary files of concurrent writes within this process
+let tempCounter = 0;
+
+// Metadata stored next to each cached tile
+export interface TileCacheMeta {
+  fetchedAt: number; // epoch milliseconds
+  expiresAt: number; // epoch milliseconds
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface TileCacheEntry {
+  buffer: Buffer;
+  meta: TileCacheMeta;
+  fresh: boolean;
+}
+
+/**
+ * Filesystem tile cache
+ */
+export class TileCache {
+  private readonly directory: string;
+  private readonly ttl: number;
+  private readonly maxSize?: number;
+
+  constructor(options: TileCacheOptions) {
+    if (!options.directory) {
+      throw new Error('Tile cache directory is required');
+    }
+
+    this.directory = options.directory;
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.maxSize = options.maxSize;
+  }
+
+  /**
+   * Get the file path of a cached tile
+   */
+  getTilePath(provider: TileProvider, coord: TileCoord, retina: boolean = false): string {
+    const providerDir = provider.name.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const fileName = `${coord.y}${retina ? '@2x' : ''}.tile`;
+    return path.join(this.directory, providerDir, String(coord.z), String(coord.x), fileName);
+  }
+
+  /**
+   * Read a tile from cache, returns null when the tile is not cached
+   */
+  async read(provider: TileProvider, coord: TileCoord, retina: boolean = false): Promise<TileCacheEntry | null> {
+    const tilePath = this.getTilePath(provider, coord, retina);
+
+    try {
+      const [buffer, metaJson] = await Promise.all([
+        fs.promises.readFile(tilePath),
+        fs.promises.readFile(`${tilePath}.json`, 'utf8')
+      ]);
+      const meta: TileCacheMeta = JSON.parse(metaJson);
+
+      // Record access time for LRU eviction
+      const now = new Date();
+      await fs.promises.utimes(tilePath, now, now);
+
+      return {
+        buffer,
+        meta,
+        fresh: meta.expiresAt > Date.now()
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Store a fetched tile together with its HTTP caching metadata
+   * Metadata is moved into place before the tile, so a tile present on disk always has metadata
+   */
+  async write(
+    provider: TileProvider,
+    coord: TileCoord,
+    retina: boolean,
+    buffer: Buffer,
+    headers: Record<string, any> = {}
+  ): Promise<void> {
+    const cacheControl = TileCache.parseCacheControl(headers['cache-control']);
+    if (cacheControl.noStore) {
+      return;
+    }
+
+    const tilePath = this.getTilePath(provider, coord, retina);
+
+    try {
+      await fs.promises.mkdir(path.dirname(tilePath), { recursive: true });
+      await TileCache.writeAtomic(`${tilePath}.json`, JSON.stringify(this.createMeta(headers)));
+      await TileCache.writeAtomic(tilePath, buffer);
+    } catch (error) {
+      console.warn(`Failed to write tile ${coord.z}/${coord.x}/${coord.y} to cache: ${error}`);
+    }
+  }
+
+  /**
+   * Refresh metadata of a cached tile after a 304 Not Modified response
+   */
+  async refresh(
+    provider: TileProvider,
+    coord: TileCoord,
+    retina: boolean,
+    entry: TileCacheEntry,
+    headers: Record<string, any> = {}
+  ): Promise<void> {
+    const tilePath = this.getTilePath(provider, coord, retina);
+    const meta = this.createMeta(headers);
+
+    try {
+      await TileCache.writeAtomic(`${tilePath}.json`, JSON.stringify({
+        ...meta,
+        etag: meta.etag ?? entry.meta.etag,
+        lastModified: meta.lastModified ?? entry.meta.lastModified
+      }));
+    } catch (error) {
+      console.warn(`Failed to refresh cached tile ${coord.z}/${coord.x}/${coord.y}: ${error}`);
+    }
+  }
+
+  /**
+   * Build conditional request headers for revalidating a stale entry
+   */
+  static getRevalidationHeaders(entry: TileCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (entry.meta.etag) {
+      headers['If-None-Match'] = entry.meta.etag;
+    }
+
+    if (entry.meta.lastModified) {
+      headers['If-Modified-Since'] = entry.meta.lastModified;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Evict least recently used tiles until the cache fits within maxSize
+   */
+  async prune(): Promise<void> {
+    if (this.maxSize === undefined) {
+      return;
+    }
+
+    const files = await TileCache.listTiles(this.directory);
+    let totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+    if (totalSize <= this.maxSize) {
+      return;
+    }
+
+    // Oldest access first
+    files.sort((a, b) => a.accessedAt - b.accessedAt);
+
+    for (const file of files) {
+      if (totalSize <= this.maxSize) {
+        break;
+      }
+
+      try {
+        await fs.promises.unlink(file.path);
+        await fs.promises.unlink(`${file.path}.json`).catch(() => undefined);
+        totalSize -= file.size;
+      } catch (error) {
+        console.warn(`Failed to evict cached tile ${file.path}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Parse the Cache-Control header fields relevant to tile caching
+   */
+  static parseCacheControl(header?: string): { maxAge?: number; noStore: boolean; noCache: boolean } {
+    const directives = (header || '').toLowerCase().split(',').map(d => d.trim());
+    const maxAgeDirective = directives.find(d => d.startsWith('max-age='));
+    const maxAge = maxAgeDirective ? parseInt(maxAgeDirective.split('=')[1], 10) : undefined;
+
+    return {
+      maxAge: maxAge !== undefined && !isNaN(maxAge) ? maxAge : undefined,
+      noStore: directives.includes('no-store'),
+      noCache: directives.includes('no-cache')
+    };
+  }
+
+  /**
+   * Create cache metadata from response headers
+   */
+  private createMeta(headers: Record<string, any>): TileCacheMeta {
+    const cacheControl = TileCache.parseCacheControl(headers['cache-control']);
+    const now = Date.now();
+
+    // no-cache entries may be stored but must be revalidated before every use
+    const lifetime = cacheControl.noCache ? 0 : (cacheControl.maxAge ?? this.ttl);
+
+    return {
+      fetchedAt: now,
+      expiresAt: now + lifetime * 1000,
+      etag: headers['etag'],
+      lastModified: headers['last-modified']
+    };
+  }
+
+  /**
+   * Write a file via a temporary file in the same directory and rename it into place,
+   * so concurrent readers and interrupted writes never see a partial file
+   */
+  private static async writeAtomic(filePath: string, data: Buffer | string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}-${tempCounter++}.tmp`;
+
+    try {
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Recursively list cached tile files with size (including metadata) and access time
+   */
+  private static async listTiles(
+    directory: string
+  ): Promise<{ path: string; size: number; accessedAt: number }[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      return [];
+    }
+
+    const files: { path: string; size: number; accessedAt: number }[] = [];
+
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        files.push(...await TileCache.listTiles(entryPath));
+      } else if (entry.name.endsWith('.tile')) {
+        const stat = await fs.promises.stat(entryPath);
+        const metaSize = await fs.promises.stat(`${entryPath}.json`)
+          .then(metaStat => metaStat.size)
+          .catch(() => 0);
+
+        files.push({
+          path: entryPath,
+          size: stat.size + metaSize,
+          accessedAt: stat.atimeMs
+        });
+      }
+    }
+
+    return files;
+  }
+}
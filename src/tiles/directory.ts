@@ -0,0 +1,50 @@
+/**
+ * Directory tile source module
+ * Reads raster tiles from a local folder laid out as {z}/{x}/{y}.{png,jpg,webp}
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TileCoord } from '../types';
+
+const TILE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+/**
+ * Local directory tile source
+ */
+export class DirectorySource {
+  /**
+   * Get candidate file paths for a tile, in lookup order
+   * Retina lookups try {y}@2x first and fall back to the regular tile
+   */
+  static getTilePaths(root: string, coord: TileCoord, retina: boolean = false): string[] {
+    const tileDir = path.join(root, String(coord.z), String(coord.x));
+    const names = retina ? [`${coord.y}@2x`, String(coord.y)] : [String(coord.y)];
+    const paths: string[] = [];
+
+    for (const name of names) {
+      for (const extension of TILE_EXTENSIONS) {
+        paths.push(path.join(tileDir, `${name}.${extension}`));
+      }
+    }
+
+    return paths;
+  }
+
+  /**
+   * Read tile image data, returns null when no tile file exists
+   */
+  static async getTile(root: string, coord: TileCoord, retina: boolean = false): Promise<Buffer | null> {
+    for (const tilePath of DirectorySource.getTilePaths(root, coord, retina)) {
+      try {
+        return await fs.promises.readFile(tilePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw new Error(`Failed to read tile file ${tilePath}: ${error}`);
+        }
+      }
+    }
+
+    return null;
+  }
+}
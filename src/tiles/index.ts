@@ -3,9 +3,33 @@
  * Handles tile coordinate calculation and tile data retrieval
  */
 
-import axios from 'axios';
-import { GeoBounds, TileCoord, TileData, TileGrid, TileResult } from '../types';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import {
+  GeoBounds,
+  TileCoord,
+  TileData,
+  TileFetchOptions,
+  TileGrid,
+  TileProvider,
+  TileResult,
+  TileRetryOptions
+} from '../types';
 import { MercatorUtil } from '../utils/mercator';
+import { TileProviderRegistry } from './providers';
+import { TileCache } from './cache';
+import { RateLimiter } from './limiter';
+import { MBTilesSource } from './mbtiles';
+import { DirectorySource } from './directory';
+
+export { TileProviderRegistry } from './providers';
+export { TileCache } from './cache';
+export { RateLimiter } from './limiter';
+export { MBTilesSource } from './mbtiles';
+export { DirectorySource } from './directory';
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_CONCURRENCY = 6;
+const DEFAULT_USER_AGENT = 'trajmap';
 
 /**
  * Tile service
@@ -66,30 +90,90 @@ export class TileService {
   }
 
   /**
-   * Get tile URL from CartoCD provider with retina support
+   * Get tile URL from tile provider with retina support
    */
-  static getTileUrl(coord: TileCoord, retina: boolean = false): string {
+  static getTileUrl(
+    coord: TileCoord,
+    retina: boolean = false,
+    provider: TileProvider = TileProviderRegistry.resolve()
+  ): string {
+    if (!provider.url) {
+      throw new Error(`Tile provider ${provider.name} has no url template`);
+    }
+
     const { x, y, z } = coord;
-    const retinaParam = retina ? '@2x' : '';
+    const retinaParam = retina && provider.retina ? '@2x' : '';
     
-    // Randomly select one of the four subdomains (a, b, c, d)
-    const subdomains = ['a', 'b', 'c', 'd'];
-    const subdomain = subdomains[Math.floor(Math.random() * subdomains.length)];
+    // Randomly select one of the provider subdomains
+    const subdomains = provider.subdomains || [];
+    const subdomain = subdomains.length > 0
+      ? subdomains[Math.floor(Math.random() * subdomains.length)]
+      : '';
     
-    // Use CartoDB Voyager style with retina support and random subdomain
-    return `https://${subdomain}.basemaps.cartocdn.com/rastertiles/voyager/${z}/${x}/${y}${retinaParam}.png`;
+    // Global patterns, templates may repeat a placeholder (e.g. in a query string)
+    return provider.url
+      .replace(/\{s\}/g, subdomain)
+      .replace(/\{z\}/g, String(z))
+      .replace(/\{x\}/g, String(x))
+      .replace(/\{y\}/g, String(y))
+      .replace(/\{r\}/g, retinaParam);
   }
 
   /**
-   * Fetch tile data from URL
+   * Fetch tile data from the provider's source
+   * Remote tiles go through the tile cache when configured, local sources are read directly
    */
-  static async fetchTile(coord: TileCoord, retina: boolean = false): Promise<TileData> {
-    const url = TileService.getTileUrl(coord, retina);
+  static async fetchTile(
+    coord: TileCoord,
+    retina: boolean = false,
+    provider: TileProvider = TileProviderRegistry.resolve(),
+    options: TileFetchOptions = {}
+  ): Promise<TileData> {
+    if (!TileService.validateTileCoord(coord, provider)) {
+      throw new Error(`Tile ${coord.z}/${coord.x}/${coord.y} is not available from provider ${provider.name}`);
+    }
+
+    const useRetina = retina && provider.retina === true;
+
+    if (provider.type === 'mbtiles' || provider.type === 'directory') {
+      return TileService.readLocalTile(coord, useRetina, provider);
+    }
+
+    const url = TileService.getTileUrl(coord, useRetina, provider);
+    const tileBounds = MercatorUtil.tileToBounds(coord.x, coord.y, coord.z);
+    const cache = options.cache ? new TileCache(options.cache) : undefined;
     
     try {
-      const response = await axios.get(url, { responseType: 'arraybuffer' });
+      const cached = cache ? await cache.read(provider, coord, useRetina) : null;
+      if (cached && cached.fresh) {
+        return { coord, buffer: cached.buffer, bounds: tileBounds };
+      }
+
+      const limiter = options.requestsPerSecond
+        ? RateLimiter.forKey(provider.name, options.requestsPerSecond)
+        : undefined;
+
+      // Revalidate stale entries with ETag / Last-Modified
+      const response = await TileService.requestWithRetry(url, {
+        responseType: 'arraybuffer',
+        headers: {
+          'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+          ...options.headers,
+          ...(cached ? TileCache.getRevalidationHeaders(cached) : {})
+        },
+        timeout: options.timeout ?? DEFAULT_TIMEOUT,
+        validateStatus: status => (status >= 200 && status < 300) || (status === 304 && cached !== null)
+      }, options.retry, limiter);
+
+      if (response.status === 304 && cached) {
+        await cache!.refresh(provider, coord, useRetina, cached, response.headers);
+        return { coord, buffer: cached.buffer, bounds: tileBounds };
+      }
+
       const buffer = Buffer.from(response.data);
-      const tileBounds = MercatorUtil.tileToBounds(coord.x, coord.y, coord.z);
+      if (cache) {
+        await cache.write(provider, coord, useRetina, buffer, response.headers);
+      }
       
       return {
         coord,
@@ -101,39 +185,188 @@ export class TileService {
     }
   }
 
+  /**
+   * Read tile data from a local tile source
+   * Missing tiles are reported as errors, like failed network requests
+   */
+  static async readLocalTile(coord: TileCoord, retina: boolean, provider: TileProvider): Promise<TileData> {
+    const buffer = provider.type === 'directory'
+      ? await DirectorySource.getTile(provider.path!, coord, retina)
+      : MBTilesSource.open(provider.path!).getTile(coord);
+
+    if (!buffer) {
+      throw new Error(`Tile ${coord.z}/${coord.x}/${coord.y} not found in ${provider.path}`);
+    }
+
+    return {
+      coord,
+      buffer,
+      bounds: MercatorUtil.tileToBounds(coord.x, coord.y, coord.z)
+    };
+  }
+
+  /**
+   * Perform a GET request, retrying transient failures with exponential backoff
+   * Every attempt, including retries, waits for a slot from the rate limiter if given
+   */
+  static async requestWithRetry(
+    url: string,
+    requestConfig: AxiosRequestConfig,
+    retry: TileRetryOptions = {},
+    limiter?: RateLimiter
+  ): Promise<AxiosResponse> {
+    const retries = retry.retries ?? 2;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (limiter) {
+          await limiter.acquire();
+        }
+        return await axios.get(url, requestConfig);
+      } catch (error) {
+        if (attempt >= retries || !TileService.isRetryableError(error)) {
+          throw error;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, TileService.getBackoffDelay(attempt, retry)));
+      }
+    }
+  }
+
+  /**
+   * Calculate backoff delay in ms before the given retry attempt (0-based)
+   */
+  static getBackoffDelay(attempt: number, retry: TileRetryOptions = {}): number {
+    const minDelay = retry.minDelay ?? 200;
+    const maxDelay = retry.maxDelay ?? 5000;
+    const factor = retry.factor ?? 2;
+
+    const delay = Math.min(maxDelay, minDelay * Math.pow(factor, attempt));
+
+    // Equal jitter: keep half of the delay, randomize the other half
+    if (retry.jitter === false) {
+      return delay;
+    }
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  /**
+   * Check whether a failed request is worth retrying
+   * Network errors, timeouts, 408, 429 and 5xx responses are considered transient
+   */
+  private static isRetryableError(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+
+    const status = error.response?.status;
+    if (status === undefined) {
+      return true;
+    }
+
+    return status === 408 || status === 429 || status >= 500;
+  }
+
   /**
    * Fetch all tiles in a grid
    */
-  static async fetchTileGrid(tileGrid: TileGrid, retina: boolean = false): Promise<TileGrid> {
-    const fetchPromises = tileGrid.tiles.map(tile => 
-      TileService.fetchTile(tile.coord, retina)
+  static async fetchTileGrid(
+    tileGrid: TileGrid,
+    retina: boolean = false,
+    provider: TileProvider = TileProviderRegistry.resolve(),
+    options: TileFetchOptions = {}
+  ): Promise<TileGrid> {
+    const results = await TileService.mapWithConcurrency(
+      tileGrid.tiles,
+      options.concurrency ?? DEFAULT_CONCURRENCY,
+      tile => TileService.fetchTile(tile.coord, retina, provider, options)
     );
+    const fetchedTiles: TileData[] = [];
+    const missingTiles: TileCoord[] = [];
 
-    try {
-      const fetchedTiles = await Promise.all(fetchPromises);
-      
-      return {
-        ...tileGrid,
-        tiles: fetchedTiles
-      };
-    } catch (error) {
-      throw new Error(`Failed to fetch tile grid: ${error}`);
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+
+      if (result.status === 'fulfilled') {
+        fetchedTiles.push(result.value);
+        continue;
+      }
+
+      if (options.failurePolicy !== 'partial') {
+        throw new Error(`Failed to fetch tile grid: ${result.reason}`);
+      }
+
+      // Keep the tile with an empty buffer so stitching draws a placeholder
+      console.warn(`${result.reason}`);
+      const tile = tileGrid.tiles[i];
+      fetchedTiles.push({ ...tile, buffer: Buffer.alloc(0) });
+      missingTiles.push(tile.coord);
+    }
+
+    // Enforce cache size limit once per grid rather than per tile
+    if (options.cache) {
+      await new TileCache(options.cache).prune();
+    }
+
+    return {
+      ...tileGrid,
+      tiles: fetchedTiles,
+      missingTiles
+    };
+  }
+
+  /**
+   * Run an async task for each item with at most `limit` tasks in flight
+   * Results are settled and returned in input order
+   */
+  static async mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T) => Promise<R>
+  ): Promise<PromiseSettledResult<R>[]> {
+    if (!(limit >= 1)) {
+      throw new Error(`Concurrency must be at least 1, got: ${limit}`);
     }
+
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        try {
+          results[index] = { status: 'fulfilled', value: await task(items[index]) };
+        } catch (reason) {
+          results[index] = { status: 'rejected', reason };
+        }
+      }
+    };
+
+    const workerCount = Math.min(Math.floor(limit), items.length);
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    return results;
   }
 
   /**
    * Calculate optimal zoom level for given bounds using Web Mercator projection
    * Based on standard tile-based mapping algorithms
    */
-  static calculateOptimalZoom(bounds: GeoBounds, viewportWidth: number = 1024, viewportHeight: number = 768): number {
+  static calculateOptimalZoom(
+    bounds: GeoBounds,
+    viewportWidth: number = 1024,
+    viewportHeight: number = 768,
+    provider: TileProvider = TileProviderRegistry.resolve()
+  ): number {
     // Use Web Mercator formula to calculate zoom level
     // Based on the longitude span and viewport width
     const lngSpan = bounds.maxLng - bounds.minLng;
+    const tileSize = provider.tileSize ?? 256;
     
     // Calculate zoom level based on longitude span
-    // At zoom 0, the world is 360 degrees wide and 256 pixels wide
-    // At zoom n, the world is 256 * 2^n pixels wide
-    const zoomForLng = Math.log2(viewportWidth * 360 / (lngSpan * 256));
+    // At zoom 0, the world is 360 degrees wide and one tile (tileSize pixels) wide
+    // At zoom n, the world is tileSize * 2^n pixels wide, so 512px tiles need one zoom level less
+    const zoomForLng = Math.log2(viewportWidth * 360 / (lngSpan * tileSize));
     
     // For latitude, we need to account for Mercator projection distortion
     // Convert latitude bounds to Web Mercator Y coordinates
@@ -146,24 +379,30 @@ export class TileService {
     const mercYSpan = Math.abs(mercY2 - mercY1);
     
     // Calculate zoom level for latitude
-    // The full Mercator Y range is 2π, and at zoom 0 it's 256 pixels
-    const zoomForLat = Math.log2(viewportHeight * 2 * Math.PI / (mercYSpan * 256));
+    // The full Mercator Y range is 2π, and at zoom 0 it's tileSize pixels
+    const zoomForLat = Math.log2(viewportHeight * 2 * Math.PI / (mercYSpan * tileSize));
     
     // Use the smaller zoom level to ensure the entire bounds fit
     const zoom = Math.floor(Math.min(zoomForLng, zoomForLat));
     
-    // Clamp zoom level to valid range
-    return Math.min(Math.max(zoom, 1), 18);
+    // Clamp zoom level to the provider's supported range
+    const minZoom = Math.max(provider.minZoom ?? 0, 1);
+    const maxZoom = provider.maxZoom ?? 18;
+    return Math.min(Math.max(zoom, minZoom), maxZoom);
   }
 
   /**
-   * Validate tile coordinate
+   * Validate tile coordinate against provider zoom range
    */
-  static validateTileCoord(coord: TileCoord): boolean {
+  static validateTileCoord(
+    coord: TileCoord,
+    provider: TileProvider = TileProviderRegistry.resolve()
+  ): boolean {
     const maxTile = Math.pow(2, coord.z) - 1;
     
     return coord.x >= 0 && coord.x <= maxTile &&
            coord.y >= 0 && coord.y <= maxTile &&
-           coord.z >= 0 && coord.z <= 18; // Max zoom level
+           coord.z >= (provider.minZoom ?? 0) &&
+           coord.z <= (provider.maxZoom ?? 18);
   }
 }
\ No newline at end of file
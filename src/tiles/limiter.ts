@@ -0,0 +1,59 @@
+/**
+ * Request rate limiting module
+ * Spaces out tile requests so concurrent renders share one request budget per tile server
+ */
+
+/**
+ * Requests-per-second rate limiter
+ */
+export class RateLimiter {
+  private static readonly shared = new Map<string, RateLimiter>();
+
+  private interval: number;
+  private nextSlot = 0;
+
+  constructor(requestsPerSecond: number) {
+    this.interval = RateLimiter.toInterval(requestsPerSecond);
+  }
+
+  /**
+   * Get the process-wide limiter for a key, creating it on first use
+   * An existing limiter keeps its queue but adopts the latest rate
+   */
+  static forKey(key: string, requestsPerSecond: number): RateLimiter {
+    let limiter = RateLimiter.shared.get(key);
+
+    if (!limiter) {
+      limiter = new RateLimiter(requestsPerSecond);
+      RateLimiter.shared.set(key, limiter);
+    } else {
+      limiter.interval = RateLimiter.toInterval(requestsPerSecond);
+    }
+
+    return limiter;
+  }
+
+  /**
+   * Wait until the next request slot is available
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  /**
+   * Convert requests per second to minimum spacing between requests in ms
+   */
+  private static toInterval(requestsPerSecond: number): number {
+    if (!(requestsPerSecond > 0)) {
+      throw new Error(`Requests per second must be a positive number, got: ${requestsPerSecond}`);
+    }
+
+    return 1000 / requestsPerSecond;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * MBTiles tile source module
+ * Reads raster tiles from a local MBTiles (SQLite) file for offline rendering
+ */
+
+import type { Database } from 'better-sqlite3';
+import { TileCoord, TileProvider } from '../types';
+
+/**
+ * MBTiles tile source
+ */
+export class MBTilesSource {
+  private static readonly sources = new Map<string, MBTilesSource>();
+
+  private readonly db: Database;
+  private readonly flipY: boolean;
+
+  private constructor(private readonly filePath: string) {
+    // Loaded lazily so the native SQLite binding (an optional dependency) is only required for offline rendering
+    let BetterSqlite3: any;
+    try {
+      BetterSqlite3 = require('better-sqlite3');
+    } catch (error) {
+      throw new Error(`Install better-sqlite3 to use mbtiles tile providers: ${error}`);
+    }
+
+    try {
+      this.db = new BetterSqlite3(filePath, { readonly: true, fileMustExist: true });
+    } catch (error) {
+      throw new Error(`Failed to open MBTiles file ${filePath}: ${error}`);
+    }
+
+    // MBTiles stores rows in TMS order unless the metadata explicitly says otherwise
+    this.flipY = this.getMetadata().scheme !== 'xyz';
+  }
+
+  /**
+   * Get a shared source for the given file, opening it on first use
+   */
+  static open(filePath: string): MBTilesSource {
+    let source = MBTilesSource.sources.get(filePath);
+
+    if (!source) {
+      source = new MBTilesSource(filePath);
+      MBTilesSource.sources.set(filePath, source);
+    }
+
+    return source;
+  }
+
+  /**
+   * Close all open MBTiles files
+   */
+  static closeAll(): void {
+    for (const source of MBTilesSource.sources.values()) {
+      source.db.close();
+    }
+    MBTilesSource.sources.clear();
+  }
+
+  /**
+   * Create a tile provider from an MBTiles file, using its metadata for zoom range and attribution
+   */
+  static createProvider(filePath: string, name: string = filePath): TileProvider {
+    const metadata = MBTilesSource.open(filePath).getMetadata();
+    const minZoom = parseInt(metadata.minzoom, 10);
+    const maxZoom = parseInt(metadata.maxzoom, 10);
+
+    return {
+      name,
+      type: 'mbtiles',
+      path: filePath,
+      minZoom: isNaN(minZoom) ? undefined : minZoom,
+      maxZoom: isNaN(maxZoom) ? undefined : maxZoom,
+      retina: false,
+      attribution: metadata.attribution
+    };
+  }
+
+  /**
+   * Read the metadata table as key/value pairs
+   */
+  getMetadata(): Record<string, string> {
+    try {
+      const rows = this.db.prepare('SELECT name, value FROM metadata').all() as { name: string; value: string }[];
+      return Object.fromEntries(rows.map(row => [row.name, row.value]));
+    } catch (error) {
+      // The metadata table is required by the spec but missing in some exports
+      return {};
+    }
+  }
+
+  /**
+   * Read tile image data, returns null when the tile is not present
+   */
+  getTile(coord: TileCoord): Buffer | null {
+    const row = this.flipY ? MBTilesSource.flipY(coord) : coord.y;
+
+    try {
+      const result = this.db
+        .prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?')
+        .get(coord.z, coord.x, row) as { tile_data: Buffer } | undefined;
+
+      return result ? result.tile_data : null;
+    } catch (error) {
+      throw new Error(`Failed to read tile ${coord.z}/${coord.x}/${coord.y} from ${this.filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Convert an XYZ row to a TMS row (the conversion is its own inverse)
+   */
+  static flipY(coord: TileCoord): number {
+    return Math.pow(2, coord.z) - 1 - coord.y;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Tile provider registry
+ * Holds built-in tile provider presets and user registered providers
+ */
+
+import { TileProvider } from '../types';
+
+const CARTO_ATTRIBUTION = '© OpenStreetMap contributors © CARTO';
+const OSM_ATTRIBUTION = '© OpenStreetMap contributors';
+
+/**
+ * Built-in tile provider presets
+ */
+const BUILTIN_PROVIDERS: TileProvider[] = [
+  {
+    name: 'carto-voyager',
+    url: 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png',
+    subdomains: ['a', 'b', 'c', 'd'],
+    minZoom: 0,
+    maxZoom: 18,
+    tileSize: 256,
+    retina: true,
+    attribution: CARTO_ATTRIBUTION,
+    attributionRequired: true
+  },
+  {
+    name: 'carto-positron',
+    url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+    subdomains: ['a', 'b', 'c', 'd'],
+    minZoom: 0,
+    maxZoom: 18,
+    tileSize: 256,
+    retina: true,
+    attribution: CARTO_ATTRIBUTION,
+    attributionRequired: true
+  },
+  {
+    name: 'carto-dark-matter',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    subdomains: ['a', 'b', 'c', 'd'],
+    minZoom: 0,
+    maxZoom: 18,
+    tileSize: 256,
+    retina: true,
+    attribution: CARTO_ATTRIBUTION,
+    attributionRequired: true
+  },
+  {
+    name: 'osm',
+    url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    minZoom: 0,
+    maxZoom: 19,
+    tileSize: 256,
+    retina: false,
+    attribution: OSM_ATTRIBUTION,
+    attributionRequired: true
+  },
+  {
+    name: 'opentopomap',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    subdomains: ['a', 'b', 'c'],
+    minZoom: 0,
+    maxZoom: 17,
+    tileSize: 256,
+    retina: false,
+    attribution: `${OSM_ATTRIBUTION}, SRTM | © OpenTopoMap (CC-BY-SA)`,
+    attributionRequired: true
+  },
+  {
+    name: 'stamen-toner',
+    url: 'https://tiles.stadiamaps.com/tiles/stamen_toner/{z}/{x}/{y}{r}.png',
+    minZoom: 0,
+    maxZoom: 20,
+    tileSize: 256,
+    retina: true,
+    attribution: `© Stadia Maps © Stamen Design ${OSM_ATTRIBUTION}`,
+    attributionRequired: true
+  },
+  {
+    name: 'amap',
+    url: 'https://webrd0{s}.is.autonavi.com/appmaptile?lang=zh_cn&size=1&scale=1&style=8&x={x}&y={y}&z={z}',
+    subdomains: ['1', '2', '3', '4'],
+    minZoom: 3,
+    maxZoom: 18,
+    tileSize: 256,
+    retina: false,
+    attribution: '© AutoNavi',
+    attributionRequired: true,
+    coordinateSystem: 'gcj02'
+  },
+  {
+    name: 'esri-world-imagery',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    minZoom: 0,
+    maxZoom: 19,
+    tileSize: 256,
+    retina: false,
+    attribution: 'Tiles © Esri — Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    attributionRequired: true
+  }
+];
+
+/**
+ * Tile provider registry
+ */
+export class TileProviderRegistry {
+  static readonly DEFAULT_PROVIDER = 'carto-voyager';
+
+  private static readonly providers = new Map<string, TileProvider>(
+    BUILTIN_PROVIDERS.map(provider => [provider.name, provider])
+  );
+
+  /**
+   * Register a custom tile provider, replacing any provider with the same name
+   */
+  static register(provider: TileProvider): void {
+    TileProviderRegistry.validate(provider);
+    TileProviderRegistry.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Get a registered tile provider by name
+   */
+  static get(name: string): TileProvider {
+    const provider = TileProviderRegistry.providers.get(name);
+
+    if (!provider) {
+      throw new Error(`Unknown tile provider: ${name}`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * List names of all registered tile providers
+   */
+  static list(): string[] {
+    return Array.from(TileProviderRegistry.providers.keys());
+  }
+
+  /**
+   * Resolve provider configuration (name or definition) to a provider definition
+   */
+  static resolve(provider?: string | TileProvider): TileProvider {
+    if (!provider) {
+      return TileProviderRegistry.get(TileProviderRegistry.DEFAULT_PROVIDER);
+    }
+
+    if (typeof provider === 'string') {
+      return TileProviderRegistry.get(provider);
+    }
+
+    TileProviderRegistry.validate(provider);
+    return provider;
+  }
+
+  /**
+   * Validate tile provider definition
+   */
+  static validate(provider: TileProvider): void {
+    if (!provider.name) {
+      throw new Error('Tile provider name is required');
+    }
+
+    const type = provider.type || 'xyz';
+    if (type === 'xyz') {
+      if (!provider.url) {
+        throw new Error(`Tile provider ${provider.name} must define a url template`);
+      }
+
+      if (provider.url.includes('{s}') && (!provider.subdomains || provider.subdomains.length === 0)) {
+        throw new Error(`Tile provider ${provider.name} uses {s} but defines no subdomains`);
+      }
+    } else if (type === 'mbtiles' || type === 'directory') {
+      if (!provider.path) {
+        throw new Error(`Tile provider ${provider.name} must define the path of its ${type} source`);
+      }
+    } else {
+      throw new Error(`Tile provider ${provider.name} has unsupported type: ${type}`);
+    }
+
+    if (provider.coordinateSystem && !['wgs84', 'gcj02', 'bd09'].includes(provider.coordinateSystem)) {
+      throw new Error(`Tile provider ${provider.name} has unsupported coordinate system: ${provider.coordinateSystem}`);
+    }
+
+    const tileSize = provider.tileSize;
+    if (tileSize !== undefined && !(tileSize > 0 && Number.isInteger(Math.log2(tileSize / 256)))) {
+      throw new Error(`Tile provider ${provider.name} tile size must be 256 times a power of two, got: ${tileSize}`);
+    }
+
+    const minZoom = provider.minZoom ?? 0;
+    const maxZoom = provider.maxZoom ?? 18;
+    if (minZoom < 0 || maxZoom < minZoom) {
+      throw new Error(`Tile provider ${provider.name} has invalid zoom range: ${minZoom}-${maxZoom}`);
+    }
+  }
+}
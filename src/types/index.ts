@@ -8,6 +8,67 @@ export interface LatLng {
   lng: number;
 }
 
+// Geodetic coordinate system of input points or tiles
+// 'gcj02' is used by Chinese map providers (Mars coordinates), 'bd09' by Baidu
+export type CoordinateSystem = 'wgs84' | 'gcj02' | 'bd09';
+
+// Per-point attribute values (heart rate, cadence, power, ...)
+export type TrackPointAttributes = Record<string, number | string | boolean>;
+
+// GPS point with optional recording metadata
+export interface TrackPoint extends LatLng {
+  time?: Date;
+  elevation?: number; // meters
+  attributes?: TrackPointAttributes;
+}
+
+// GPS point parsed from GPX
+export interface GpxPoint extends TrackPoint {
+  name?: string;
+}
+
+// Parsed GPX document
+export interface GpxData {
+  tracks: { name?: string; segments: GpxPoint[][] }[];
+  routes: { name?: string; points: GpxPoint[] }[];
+  waypoints: GpxPoint[];
+}
+
+// GeoJSON geometry and feature types used for input and output
+// Positions are [lng, lat] or [lng, lat, elevation]
+export interface GeoJsonLineString {
+  type: 'LineString';
+  coordinates: number[][];
+}
+
+export interface GeoJsonMultiLineString {
+  type: 'MultiLineString';
+  coordinates: number[][][];
+}
+
+export type GeoJsonGeometry = GeoJsonLineString | GeoJsonMultiLineString;
+
+// Non-line geometries, skipped when reading tracks
+export interface GeoJsonOtherGeometry {
+  type: 'Point' | 'MultiPoint' | 'Polygon' | 'MultiPolygon' | 'GeometryCollection';
+  [key: string]: any;
+}
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | GeoJsonOtherGeometry | null;
+  properties?: Record<string, any> | null;
+  bbox?: number[]; // [west, south, east, north]
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+  bbox?: number[]; // [west, south, east, north]
+}
+
+export type GeoJsonInput = GeoJsonGeometry | GeoJsonOtherGeometry | GeoJsonFeature | GeoJsonFeatureCollection;
+
 // Geographic boundary
 export interface GeoBounds {
   minLat: number;
@@ -22,6 +83,23 @@ export interface PixelPoint {
   y: number;
 }
 
+// Position along a drawn path with the local direction
+export interface PathPosition extends PixelPoint {
+  angle: number; // direction of travel in radians, canvas orientation (0 = east, clockwise)
+}
+
+// Path position at a known distance from the start of the track
+export interface MeasuredPathPosition extends PathPosition {
+  distance: number; // meters along the track, gaps between segments excluded
+}
+
+// Rendered track point: pixel position plus the metadata of its source point
+export interface RenderPoint extends PixelPoint {
+  time?: Date;
+  elevation?: number;
+  attributes?: TrackPointAttributes;
+}
+
 // Pixel boundary
 export interface PixelBounds {
   minX: number;
@@ -64,25 +142,376 @@ export interface TileGrid {
   targetBounds: GeoBounds;  
   tileBounds: GeoBounds;
   zoom: number;
+  missingTiles?: TileCoord[]; // tiles that could not be fetched under the 'partial' policy
+}
+
+// Where tiles come from: remote XYZ server, local MBTiles file or local {z}/{x}/{y} directory
+export type TileSourceType = 'xyz' | 'mbtiles' | 'directory';
+
+// Tile provider definition
+export interface TileProvider {
+  name: string;
+  type?: TileSourceType; // default 'xyz'
+  url?: string;          // 'xyz' URL template, supports {s}, {z}, {x}, {y}, {r} placeholders
+  path?: string;         // 'mbtiles' file path or 'directory' root folder
+  subdomains?: string[]; // values substituted for {s}
+  minZoom?: number;      // default 0
+  maxZoom?: number;      // default 18
+  tileSize?: number;     // native tile size in pixels, default 256
+  retina?: boolean;      // whether {r} can be expanded to '@2x'
+  attribution?: string;
+  attributionRequired?: boolean; // tile license forbids hiding the attribution overlay, default false
+  coordinateSystem?: CoordinateSystem; // datum the tiles are drawn in, default 'wgs84'
+}
+
+// On-disk tile cache configuration
+export interface TileCacheOptions {
+  directory: string; // cache root, tiles are stored as <provider>/<z>/<x>/<y>[@2x]
+  ttl?: number;      // seconds a tile stays fresh when the server sends no max-age, default 7 days
+  maxSize?: number;  // maximum total cache size in bytes, least recently used tiles are evicted
+}
+
+// Tile request retry configuration
+export interface TileRetryOptions {
+  retries?: number;  // retries after the first attempt, default 2
+  minDelay?: number; // base backoff delay in ms, default 200
+  maxDelay?: number; // upper bound of a single backoff delay in ms, default 5000
+  factor?: number;   // exponential backoff factor, default 2
+  jitter?: boolean;  // randomize delays to avoid synchronized retries, default true
+}
+
+// How fetchTileGrid handles tiles that still fail after retries
+// 'fail': reject the whole grid, 'partial': keep going with empty tile buffers
+export type TileFailurePolicy = 'fail' | 'partial';
+
+// Tile fetching options
+export interface TileFetchOptions {
+  cache?: TileCacheOptions;
+  retry?: TileRetryOptions;
+  timeout?: number; // per-request timeout in ms, default 10000
+  failurePolicy?: TileFailurePolicy;
+  concurrency?: number;       // maximum parallel tile requests per grid, default 6
+  requestsPerSecond?: number; // process-wide request rate per tile provider, unlimited when omitted
+  userAgent?: string;         // User-Agent header, default 'trajmap'
+  headers?: Record<string, string>;
+}
+
+// GPS noise cleaning configuration
+export interface CleaningOptions {
+  maxSpeed?: number;         // m/s, points implying a higher speed are dropped (needs timestamps), default 83 (~300 km/h)
+  maxJump?: number;          // meters, points farther than this from most neighbouring points are dropped (without timestamps), default 20x median step (min 200)
+  stationaryRadius?: number; // meters, points dwelling within this radius are collapsed, default 5, 0 disables
+  stationaryTime?: number;   // seconds points must stay within stationaryRadius to count as stationary, default 30
+}
+
+// Points removed by the cleaning stage
+export interface CleaningReport {
+  removed: number;    // total points removed
+  outliers: number;   // speed and jump outliers
+  stationary: number; // collapsed stationary jitter
+}
+
+// Parsed color, channels 0-255 and alpha 0-1
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// How attribute values are mapped onto the color ramp
+// 'linear': evenly between min and max, 'quantile': by rank, 'fixed': at explicit breakpoints
+export type ColorScaleType = 'linear' | 'quantile' | 'fixed';
+
+// Data-driven track coloring configuration
+export interface ColorByOptions {
+  attribute: string;         // 'speed', 'pace' (derived from timestamps), 'elevation' or a point attribute name (e.g. 'hr')
+  ramp?: string[];           // color stops from low to high values, default green-yellow-red
+  scale?: ColorScaleType;    // default 'linear'
+  domain?: [number, number]; // 'linear' value range, default min/max of the data
+  breaks?: number[];         // 'fixed' ascending values, one per ramp color
+  gradient?: boolean;        // blend colors along each segment, default true
+}
+
+// Gap detection and drawing, a gap splits the track into separate segments
+export interface GapOptions {
+  maxTime?: number;              // split where consecutive points are more than this many seconds apart
+  maxDistance?: number;          // split where consecutive points are more than this many meters apart
+  connector?: 'none' | 'dashed'; // how gaps between segments are drawn, default 'none' (a break)
+}
+
+// Track simplification algorithm
+export type SimplifyAlgorithm = 'douglas-peucker' | 'visvalingam';
+
+// Track simplification configuration
+export interface SimplifyOptions {
+  algorithm?: SimplifyAlgorithm;            // default 'douglas-peucker'
+  tolerance?: number;                       // in output image pixels, default 1
+  resultPoints?: 'original' | 'simplified'; // points reported in RenderResult, default 'original'
 }
 
 // Rendering configuration
 export interface TrajmapConfig {
   trackRegion: TrackRegion;
+  polylinePrecision?: number | 'auto'; // decimal digits of the encoded polyline, default 5
+  coordinateSystem?: CoordinateSystem; // datum of the input points, default 'wgs84'
   expansionRegion?: ExpansionRegion;
   lineColor?: string;
   lineWidth?: number;
+  lineOpacity?: number;      // 0-1, applied to the whole track including casing
+  lineDash?: number[];       // dash and gap lengths in pixels, e.g. [8, 4]
+  lineCap?: LineCap;         // default 'round'
+  lineJoin?: LineJoin;       // default 'round'
+  lineCasing?: LineCasing;   // outline beneath the line
+  lineShadow?: LineShadow;   // drop shadow beneath the line
+  colorBy?: ColorByOptions;  // color segments by a numeric value instead of lineColor
+  arrows?: ArrowOptions;     // direction arrows along the track
+  distanceMarkers?: DistanceMarkerOptions; // numbered badges every kilometer or mile
   retina?: boolean;
-  marker?: {
-    start?: string; // 'circle', 'square', 'triangle'
-    end?: string;   // 'circle', 'square', 'triangle'
-  };
+  tileProvider?: string | TileProvider; // registered provider name or custom definition
+  tileCache?: TileCacheOptions;
+  tileRetry?: TileRetryOptions;
+  tileTimeout?: number;                  // per-request timeout in ms
+  tileFailurePolicy?: TileFailurePolicy; // default 'fail'
+  tileConcurrency?: number;
+  tileRequestsPerSecond?: number;
+  tileUserAgent?: string;
+  tileHeaders?: Record<string, string>;
+  cleaning?: CleaningOptions; // enables GPS noise cleaning
+  simplify?: SimplifyOptions;
+  gaps?: GapOptions;
+  outputGeoJson?: boolean; // include rendered track as GeoJSON and final bounds in result
+  marker?: MarkerOptions;
+  annotations?: Annotation[];        // waypoints / POIs, in the input coordinate system
+  annotationStyle?: AnnotationStyle; // default label style of annotations
+  fitAnnotations?: boolean;          // include annotations when fitting the map bounds, default false
+  scaleBar?: boolean | ScaleBarOptions;     // true for default options
+  northArrow?: boolean | NorthArrowOptions; // true for default options
+  attribution?: boolean | AttributionOptions; // drawn by default when the provider has one, false to opt out
+  panel?: StatsPanelOptions;         // title, date and activity stats header or footer
+}
+
+// Built-in marker shapes
+export type MarkerShape = 'circle' | 'square' | 'triangle';
+
+// Marker with custom styling or a PNG/SVG image
+export interface MarkerDefinition {
+  type?: MarkerShape | 'image'; // default 'image' when image is set, otherwise 'circle'
+  size?: number;                // shape size, or longest image side, in pixels; default 12 (images: natural size)
+  fill?: string;                // shape fill, default green for start and red for end
+  stroke?: string;              // shape outline color
+  strokeWidth?: number;         // default 1
+  label?: string;               // text centered on shapes, below images
+  labelColor?: string;          // default '#FFFFFF' on shapes, '#333333' below images
+  labelFont?: string;           // CSS font, default bold sans-serif scaled to the marker
+  image?: string | Buffer;      // PNG/SVG file path or image data
+  anchor?: [number, number];    // image point placed on the track as fractions of its size, default [0.5, 0.5]
+}
+
+// Label style of map annotations
+export interface AnnotationStyle {
+  color?: string;      // text color, default '#333333'
+  font?: string;       // CSS font, default 'bold 11px sans-serif'
+  background?: string; // label background, default 'rgba(255, 255, 255, 0.85)'
+  padding?: number;    // pixels around the text, default 3
+}
+
+// Waypoint or point of interest drawn on the map
+export interface Annotation extends LatLng {
+  label?: string;
+  icon?: MarkerShape | MarkerDefinition; // default 'circle'
+  style?: AnnotationStyle;               // overrides annotationStyle
+}
+
+// Start/end marker configuration, a shape name (case-insensitive, see MarkerShape) or a full definition
+export interface MarkerOptions {
+  start?: string | MarkerDefinition;
+  end?: string | MarkerDefinition;
+}
+
+// Canvas line cap and join styles
+export type LineCap = 'butt' | 'round' | 'square';
+export type LineJoin = 'miter' | 'round' | 'bevel';
+
+// Outline drawn beneath the track line for contrast on busy basemaps
+export interface LineCasing {
+  color?: string; // default '#FFFFFF'
+  width?: number; // pixels on each side of the line, default 2
+}
+
+// Drop shadow cast by the track line and its casing
+export interface LineShadow {
+  color?: string;   // default 'rgba(0, 0, 0, 0.5)'
+  blur?: number;    // default 4
+  offsetX?: number; // default 0
+  offsetY?: number; // default 2
+}
+
+// Direction arrows drawn along the track
+export interface ArrowOptions {
+  spacing?: number;     // pixels between arrows along the line, default 120
+  distance?: number;    // place an arrow every N kilometers instead of by pixel spacing
+  size?: number;        // arrow length in pixels, default max(8, 2.5 × lineWidth)
+  color?: string;       // default '#FFFFFF'
+  strokeColor?: string; // optional outline color
+  strokeWidth?: number; // outline width, default 1
+}
+
+// Unit system for distances
+export type DistanceUnit = 'km' | 'mi';
+
+// Numbered distance badges along the track
+export interface DistanceMarkerOptions {
+  interval?: number;    // distance between markers in units, default 1
+  unit?: DistanceUnit;  // default 'km'
+  radius?: number;      // badge radius in pixels, default 9
+  fill?: string;        // badge color, default '#FFFFFF'
+  strokeColor?: string; // badge border, default '#333333'
+  strokeWidth?: number; // default 1.5
+  textColor?: string;   // default '#333333'
+  font?: string;        // CSS font, default 'bold 10px sans-serif'
+}
+
+// Per-track style, unset fields fall back to the render configuration
+export interface TrackStyle {
+  lineColor?: string;
+  lineWidth?: number;
+  lineOpacity?: number;     // 0-1, applied to the whole track including casing
+  lineDash?: number[];      // dash and gap lengths in pixels, e.g. [8, 4]
+  lineCap?: LineCap;        // default 'round'
+  lineJoin?: LineJoin;      // default 'round'
+  lineCasing?: LineCasing;
+  lineShadow?: LineShadow;
+  colorBy?: ColorByOptions;
+  arrows?: ArrowOptions;
+  distanceMarkers?: DistanceMarkerOptions;
+  marker?: MarkerOptions;
+}
+
+// One trajectory of a multi-track render, with exactly one point source
+export interface TrackInput extends TrackStyle {
+  name?: string;
+  polyline?: string;
+  points?: TrackPoint[];
+  segments?: TrackPoint[][];
+  gpx?: string | Buffer;
+  geojson?: GeoJsonInput | string;
+  zIndex?: number; // draw order, higher is drawn on top, default input order
+}
+
+// Decoded trajectory with its resolved style
+export interface Track {
+  name?: string;
+  segments: TrackPoint[][]; // continuous parts of the track, gaps lie between segments
+  sourceSegments?: TrackPoint[][]; // unsimplified segments when segments are simplified, distances are measured on these
+  style: TrackStyle;
+  zIndex: number;
+}
+
+// Label to place next to an anchor point
+export interface LabelRequest {
+  x: number;      // anchor position
+  y: number;
+  width: number;  // label size including padding
+  height: number;
+  offset: number; // distance between anchor and label edge
+}
+
+// Rendered annotation in output pixel coordinates
+export interface RenderAnnotation extends PixelPoint {
+  label?: string;
+}
+
+// Rendered trajectory in output pixel coordinates
+export interface RenderTrack {
+  name?: string;
+  points: RenderPoint[];
+  segments: RenderPoint[][];
+}
+
+// Image corner for map furniture
+export type OverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Scale bar drawn on the final image
+export interface ScaleBarOptions {
+  units?: 'metric' | 'imperial'; // default 'metric'
+  position?: OverlayCorner;      // default 'bottom-left'
+  padding?: number;              // distance from the image edge in pixels, default 10
+  maxWidth?: number;             // longest bar in pixels, default 100
+  color?: string;                // bar and text color, default '#333333'
+  background?: string;           // default 'rgba(255, 255, 255, 0.7)'
+  font?: string;                 // CSS font, default '11px sans-serif'
+  lineWidth?: number;            // default 2
+}
+
+// North arrow drawn on the final image
+export interface NorthArrowOptions {
+  position?: OverlayCorner; // default 'top-right'
+  padding?: number;         // distance from the image edge in pixels, default 10
+  size?: number;            // arrow height in pixels, default 24
+  color?: string;           // default '#333333'
+  background?: string;      // default 'rgba(255, 255, 255, 0.7)'
+  font?: string;            // CSS font of the 'N', default 'bold 11px sans-serif'
+}
+
+// Tile attribution drawn on the final image
+export interface AttributionOptions {
+  text?: string;            // replaces the provider attribution, or is appended when the provider requires it
+  position?: OverlayCorner; // default 'bottom-right'
+  padding?: number;         // distance from the image edge in pixels, default 0
+  color?: string;           // default '#333333'
+  background?: string;      // default 'rgba(255, 255, 255, 0.7)'
+  fontSize?: number;        // default scaled to the image size, 9-24px
+  fontFamily?: string;      // default 'sans-serif'
+}
+
+// Activity statistics shown in the stats panel
+export type ActivityStatField = 'distance' | 'duration' | 'pace' | 'speed' | 'elevationGain';
+
+// Activity statistics computed from track points, gaps between segments excluded
+export interface ActivityStats {
+  distance: number;       // meters
+  duration?: number;      // seconds, only when points have timestamps
+  pace?: number;          // seconds per kilometer, only when duration and distance > 0
+  speed?: number;         // meters per second, only when duration and distance > 0
+  elevationGain?: number; // meters, only when points have elevation
+  startTime?: Date;       // first timestamp
+}
+
+// Font file registered with node-canvas before drawing
+export interface FontFile {
+  path: string;    // .ttf / .otf file
+  family: string;  // family name to use in fontFamily
+  weight?: string; // e.g. 'bold'
+  style?: string;  // e.g. 'italic'
+}
+
+// Title and stats panel drawn above or below the map
+export interface StatsPanelOptions {
+  title?: string;
+  subtitle?: string;
+  date?: boolean | string;          // true formats the first timestamp as YYYY-MM-DD, a string is shown as is
+  stats?: ActivityStatField[];      // default ['distance', 'duration', 'pace', 'elevationGain']
+  units?: 'metric' | 'imperial';    // default 'metric'
+  position?: 'top' | 'bottom';      // default 'top'
+  mode?: 'overlay' | 'extend';      // draw over the map or add height to the image, default 'overlay'
+  layout?: 'stacked' | 'inline';    // stats below the title, or right-aligned beside it, default 'stacked'
+  padding?: number;                 // default 12
+  fontFamily?: string;              // default 'sans-serif'
+  fonts?: FontFile[];               // local font files to register, referenced by family in fontFamily
+  titleSize?: number;               // default 20
+  textSize?: number;                // subtitle and stat font size, default 13
+  color?: string;                   // title and stat values, default '#222222'
+  secondaryColor?: string;          // subtitle and stat labels, default '#666666'
+  background?: string;              // default 'rgba(255, 255, 255, 0.85)'
 }
 
 // Processing result interfaces
 export interface PreprocessingResult {
-  gpsPoints: LatLng[];
+  gpsPoints: TrackPoint[]; // points of all tracks, used to fit the bounds
+  tracks: Track[];
   config: TrajmapConfig;
+  cleaning?: CleaningReport;
 }
 
 export interface HistoryBounds {
@@ -110,12 +539,20 @@ export interface StitchingResult {
 
 export interface ProjectionResult {
   finalImage: Buffer;
-  gpsPoints: LatLng[];
+  gpsPoints: TrackPoint[];
+  tracks: Track[];
   bounds: GeoBounds;
   pixelBounds: PixelBounds;
 }
 
 export interface RenderResult {
   data: string; // base64 encoded image
-  points: PixelPoint[]; // trajectory points in pixel coordinates
+  points: RenderPoint[]; // trajectory points in pixel coordinates, with source point metadata (all tracks)
+  tracks: RenderTrack[];  // pixel points per track, in input order
+  annotations?: RenderAnnotation[]; // annotation positions, only when annotations are set
+  missingTiles?: TileCoord[]; // tiles drawn as placeholders because fetching failed
+  cleaning?: CleaningReport;  // points removed by the cleaning stage, only when cleaning is set
+  geojson?: GeoJsonFeature | GeoJsonFeatureCollection; // rendered track (collection for several tracks), only when outputGeoJson is set
+  bounds?: GeoBounds;         // geographic bounds of the image, only when outputGeoJson is set
+  stats?: ActivityStats;      // activity statistics of all tracks, only when panel is set
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * Color parsing and interpolation utilities
+ */
+
+import { RGBA } from '../types';
+
+/**
+ * Color utilities
+ */
+export class ColorUtil {
+  /**
+   * Parse #rgb, #rrggbb, #rrggbbaa, rgb() or rgba() color strings
+   */
+  static parse(color: string): RGBA {
+    const value = color.trim();
+
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+    if (hex) {
+      let digits = hex[1];
+      if (digits.length === 3) {
+        digits = digits.split('').map(d => d + d).join('');
+      }
+
+      return {
+        r: parseInt(digits.slice(0, 2), 16),
+        g: parseInt(digits.slice(2, 4), 16),
+        b: parseInt(digits.slice(4, 6), 16),
+        a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+      };
+    }
+
+    const rgb = value.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+    if (rgb) {
+      return {
+        r: parseFloat(rgb[1]),
+        g: parseFloat(rgb[2]),
+        b: parseFloat(rgb[3]),
+        a: rgb[4] !== undefined ? parseFloat(rgb[4]) : 1
+      };
+    }
+
+    throw new Error(`Unsupported color format: ${color}`);
+  }
+
+  /**
+   * Format color as rgba() string
+   */
+  static toString(color: RGBA): string {
+    return `rgba(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)}, ${color.a})`;
+  }
+
+  /**
+   * Linearly interpolate between two colors, t in [0, 1]
+   */
+  static interpolate(from: RGBA, to: RGBA, t: number): RGBA {
+    return {
+      r: from.r + (to.r - from.r) * t,
+      g: from.g + (to.g - from.g) * t,
+      b: from.b + (to.b - from.b) * t,
+      a: from.a + (to.a - from.a) * t
+    };
+  }
+
+  /**
+   * Sample an evenly spaced color ramp at position t in [0, 1]
+   */
+  static sampleRamp(ramp: RGBA[], t: number): RGBA {
+    if (ramp.length === 1) {
+      return ramp[0];
+    }
+
+    const position = Math.min(Math.max(t, 0), 1) * (ramp.length - 1);
+    const index = Math.min(Math.floor(position), ramp.length - 2);
+
+    return ColorUtil.interpolate(ramp[index], ramp[index + 1], position - index);
+  }
+}
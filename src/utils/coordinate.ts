@@ -0,0 +1,167 @@
+/**
+ * Coordinate system conversion utilities
+ * Converts between WGS84, GCJ-02 (Chinese "Mars" coordinates) and BD-09 (Baidu)
+ */
+
+import { CoordinateSystem, LatLng } from '../types';
+
+/**
+ * Coordinate system utilities
+ */
+export class CoordinateUtil {
+  // Krasovsky 1940 ellipsoid parameters used by GCJ-02
+  private static readonly KRASOVSKY_A = 6378245.0;
+  private static readonly KRASOVSKY_EE = 0.00669342162296594323;
+  private static readonly BD_X_PI = Math.PI * 3000.0 / 180.0;
+
+  /**
+   * Convert a point between coordinate systems, preserving any extra point fields
+   */
+  static convert<T extends LatLng>(point: T, from: CoordinateSystem, to: CoordinateSystem): T {
+    if (from === to) {
+      return point;
+    }
+
+    // Route everything through GCJ-02, which both other systems are defined against
+    let gcj: LatLng;
+    switch (from) {
+      case 'wgs84':
+        gcj = CoordinateUtil.wgs84ToGcj02(point);
+        break;
+      case 'bd09':
+        gcj = CoordinateUtil.bd09ToGcj02(point);
+        break;
+      default:
+        gcj = point;
+    }
+
+    let result: LatLng;
+    switch (to) {
+      case 'wgs84':
+        result = CoordinateUtil.gcj02ToWgs84(gcj);
+        break;
+      case 'bd09':
+        result = CoordinateUtil.gcj02ToBd09(gcj);
+        break;
+      default:
+        result = gcj;
+    }
+
+    return { ...point, lat: result.lat, lng: result.lng };
+  }
+
+  /**
+   * Convert WGS84 to GCJ-02, points outside mainland China are unchanged
+   */
+  static wgs84ToGcj02(point: LatLng): LatLng {
+    if (CoordinateUtil.isOutOfChina(point)) {
+      return { lat: point.lat, lng: point.lng };
+    }
+
+    const offset = CoordinateUtil.gcj02Offset(point);
+    return {
+      lat: point.lat + offset.lat,
+      lng: point.lng + offset.lng
+    };
+  }
+
+  /**
+   * Convert GCJ-02 to WGS84 by iteratively inverting the forward offset (sub-millimeter accuracy)
+   */
+  static gcj02ToWgs84(point: LatLng): LatLng {
+    if (CoordinateUtil.isOutOfChina(point)) {
+      return { lat: point.lat, lng: point.lng };
+    }
+
+    let wgs: LatLng = { lat: point.lat, lng: point.lng };
+
+    for (let i = 0; i < 10; i++) {
+      const gcj = CoordinateUtil.wgs84ToGcj02(wgs);
+      const deltaLat = gcj.lat - point.lat;
+      const deltaLng = gcj.lng - point.lng;
+
+      wgs = { lat: wgs.lat - deltaLat, lng: wgs.lng - deltaLng };
+
+      if (Math.abs(deltaLat) < 1e-9 && Math.abs(deltaLng) < 1e-9) {
+        break;
+      }
+    }
+
+    return wgs;
+  }
+
+  /**
+   * Convert GCJ-02 to BD-09
+   */
+  static gcj02ToBd09(point: LatLng): LatLng {
+    const x = point.lng;
+    const y = point.lat;
+    const z = Math.sqrt(x * x + y * y) + 0.00002 * Math.sin(y * CoordinateUtil.BD_X_PI);
+    const theta = Math.atan2(y, x) + 0.000003 * Math.cos(x * CoordinateUtil.BD_X_PI);
+
+    return {
+      lat: z * Math.sin(theta) + 0.006,
+      lng: z * Math.cos(theta) + 0.0065
+    };
+  }
+
+  /**
+   * Convert BD-09 to GCJ-02
+   */
+  static bd09ToGcj02(point: LatLng): LatLng {
+    const x = point.lng - 0.0065;
+    const y = point.lat - 0.006;
+    const z = Math.sqrt(x * x + y * y) - 0.00002 * Math.sin(y * CoordinateUtil.BD_X_PI);
+    const theta = Math.atan2(y, x) - 0.000003 * Math.cos(x * CoordinateUtil.BD_X_PI);
+
+    return {
+      lat: z * Math.sin(theta),
+      lng: z * Math.cos(theta)
+    };
+  }
+
+  /**
+   * GCJ-02 obfuscation only applies within mainland China's rough bounding box
+   */
+  static isOutOfChina(point: LatLng): boolean {
+    return point.lng < 72.004 || point.lng > 137.8347 ||
+           point.lat < 0.8293 || point.lat > 55.8271;
+  }
+
+  /**
+   * Calculate the GCJ-02 offset for a WGS84 point
+   */
+  private static gcj02Offset(point: LatLng): LatLng {
+    const a = CoordinateUtil.KRASOVSKY_A;
+    const ee = CoordinateUtil.KRASOVSKY_EE;
+
+    let dLat = CoordinateUtil.transformLat(point.lng - 105.0, point.lat - 35.0);
+    let dLng = CoordinateUtil.transformLng(point.lng - 105.0, point.lat - 35.0);
+
+    const radLat = point.lat / 180.0 * Math.PI;
+    let magic = Math.sin(radLat);
+    magic = 1 - ee * magic * magic;
+    const sqrtMagic = Math.sqrt(magic);
+
+    dLat = (dLat * 180.0) / ((a * (1 - ee)) / (magic * sqrtMagic) * Math.PI);
+    dLng = (dLng * 180.0) / (a / sqrtMagic * Math.cos(radLat) * Math.PI);
+
+    return { lat: dLat, lng: dLng };
+  }
+
+  private static transformLat(x: number, y: number): number {
+    let ret = -100.0 + 2.0 * x + 3.0 * y + 0.2 * y * y + 0.1 * x * y + 0.2 * Math.sqrt(Math.abs(x));
+    ret += (20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0 / 3.0;
+    ret += (20.0 * Math.sin(y * Math.PI) + 40.0 * Math.sin(y / 3.0 * Math.PI)) * 2.0 / 3.0;
+    ret += (160.0 * Math.sin(y / 12.0 * Math.PI) + 320 * Math.sin(y * Math.PI / 30.0)) * 2.0 / 3.0;
+    return ret;
+  }
+
+  private static transformLng(x: number, y: number): number {
+    let ret = 300.0 + x + 2.0 * y + 0.1 * x * x + 0.1 * x * y + 0.1 * Math.sqrt(Math.abs(x));
+    ret += (20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0 / 3.0;
+    ret += (20.0 * Math.sin(x * Math.PI) + 40.0 * Math.sin(x / 3.0 * Math.PI)) * 2.0 / 3.0;
+    ret += (150.0 * Math.sin(x / 12.0 * Math.PI) + 300.0 * Math.sin(x / 30.0 * Math.PI)) * 2.0 / 3.0;
+    return ret;
+  }
+}
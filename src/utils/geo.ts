@@ -11,6 +11,7 @@ import { ValidationUtil } from './validation';
  */
 export class GeoUtil {
   private static readonly EARTH_RADIUS = 6371000; // Earth radius in meters
+  static readonly METERS_PER_MILE = 1609.344;
 
   /**
    * Calculate distance between two points using Haversine formula
@@ -0,0 +1,191 @@
+/**
+ * GeoJSON conversion utilities
+ */
+
+import { TrackPoint, GeoBounds, GeoJsonFeature, GeoJsonFeatureCollection, GeoJsonInput } from '../types';
+
+const LINE_TYPES = ['LineString', 'MultiLineString'];
+const OTHER_TYPES = ['Point', 'MultiPoint', 'Polygon', 'MultiPolygon', 'GeometryCollection'];
+
+/**
+ * GeoJSON utilities for reading line geometries and writing rendered tracks
+ */
+export class GeoJsonUtil {
+  /**
+   * Extract GPS points and styling properties from GeoJSON as a single line
+   * Every LineString and every MultiLineString line is a segment, `points` concatenates them in document order
+   * Properties come from the first feature that has any
+   * A third position value becomes elevation, `coordTimes` / `coordinateProperties.times` become timestamps
+   */
+  static parse(input: GeoJsonInput | string): {
+    points: TrackPoint[];
+    segments: TrackPoint[][];
+    properties: Record<string, any>;
+  } {
+    const lines = GeoJsonUtil.parseFeatures(input);
+    const segments = lines.flatMap(line => line.segments);
+    const properties = lines.find(line => Object.keys(line.properties).length > 0)?.properties || {};
+
+    return { points: segments.flat(), segments, properties };
+  }
+
+  /**
+   * Extract one line per feature with its own segments and properties
+   * Point, polygon and other non-line features are skipped, as are features without points
+   */
+  static parseFeatures(input: GeoJsonInput | string): { segments: TrackPoint[][]; properties: Record<string, any> }[] {
+    let geojson: GeoJsonInput;
+    try {
+      geojson = typeof input === 'string' ? JSON.parse(input) : input;
+    } catch (error) {
+      throw new Error(`Invalid GeoJSON: ${error}`);
+    }
+
+    return GeoJsonUtil.toFeatures(geojson)
+      .map(feature => ({
+        segments: GeoJsonUtil.featureToSegments(feature).filter(segment => segment.length > 0),
+        properties: feature.properties || {}
+      }))
+      .filter(line => line.segments.length > 0);
+  }
+
+  /**
+   * Build style overrides from simplestyle feature properties ('stroke', 'stroke-width', 'stroke-opacity')
+   */
+  static getStyle(properties: Record<string, any>): { lineColor?: string; lineWidth?: number; lineOpacity?: number } {
+    const style: { lineColor?: string; lineWidth?: number; lineOpacity?: number } = {};
+
+    if (typeof properties['stroke'] === 'string') {
+      style.lineColor = properties['stroke'];
+    }
+
+    const width = Number(properties['stroke-width']);
+    if (properties['stroke-width'] !== undefined && width > 0) {
+      style.lineWidth = width;
+    }
+
+    const opacity = Number(properties['stroke-opacity']);
+    if (properties['stroke-opacity'] !== undefined && opacity >= 0 && opacity <= 1) {
+      style.lineOpacity = opacity;
+    }
+
+    return style;
+  }
+
+  /**
+   * Convert GPS points to a GeoJSON LineString feature, or segments to a MultiLineString when there are several
+   * Elevation is written as third coordinate when every point has one
+   */
+  static toFeature(
+    points: TrackPoint[] | TrackPoint[][],
+    bounds?: GeoBounds,
+    properties: Record<string, any> = {}
+  ): GeoJsonFeature {
+    const segments = (points.length > 0 && Array.isArray(points[0]) ? points : [points]) as TrackPoint[][];
+    const flat = segments.flat();
+    const withElevation = flat.length > 0 && flat.every(point => point.elevation !== undefined);
+
+    const toLine = (segment: TrackPoint[]) => segment.map(point =>
+      withElevation ? [point.lng, point.lat, point.elevation!] : [point.lng, point.lat]
+    );
+
+    const feature: GeoJsonFeature = {
+      type: 'Feature',
+      geometry: segments.length > 1
+        ? { type: 'MultiLineString', coordinates: segments.map(toLine) }
+        : { type: 'LineString', coordinates: toLine(flat) },
+      properties
+    };
+
+    if (bounds) {
+      feature.bbox = [bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat];
+    }
+
+    return feature;
+  }
+
+  /**
+   * Wrap features in a FeatureCollection, with an optional bbox
+   */
+  static toFeatureCollection(features: GeoJsonFeature[], bounds?: GeoBounds): GeoJsonFeatureCollection {
+    const collection: GeoJsonFeatureCollection = { type: 'FeatureCollection', features };
+
+    if (bounds) {
+      collection.bbox = [bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat];
+    }
+
+    return collection;
+  }
+
+  /**
+   * Normalize any supported GeoJSON object to a list of features
+   */
+  private static toFeatures(geojson: GeoJsonInput): GeoJsonFeature[] {
+    switch (geojson?.type) {
+      case 'FeatureCollection':
+        return geojson.features.flatMap(feature => GeoJsonUtil.toFeatures(feature));
+      case 'Feature':
+        return [geojson];
+      default:
+        if (LINE_TYPES.includes(geojson?.type) || OTHER_TYPES.includes(geojson?.type)) {
+          return [{ type: 'Feature', geometry: geojson as GeoJsonFeature['geometry'], properties: null }];
+        }
+        throw new Error(`Unsupported GeoJSON type: ${(geojson as any)?.type}`);
+    }
+  }
+
+  /**
+   * Convert a line feature to GPS point segments, one per line, none for other geometries
+   */
+  private static featureToSegments(feature: GeoJsonFeature): TrackPoint[][] {
+    const geometry = feature.geometry;
+    const properties = feature.properties || {};
+    const times = properties.coordTimes ?? properties.coordinateProperties?.times;
+
+    switch (geometry?.type) {
+      case 'LineString':
+        return [geometry.coordinates.map((position, i) =>
+          GeoJsonUtil.positionToPoint(position, Array.isArray(times) ? times[i] : undefined)
+        )];
+      case 'MultiLineString':
+        return geometry.coordinates.map((line, lineIndex) => {
+          const lineTimes = Array.isArray(times) ? times[lineIndex] : undefined;
+          return line.map((position, i) =>
+            GeoJsonUtil.positionToPoint(position, Array.isArray(lineTimes) ? lineTimes[i] : undefined)
+          );
+        });
+      default:
+        if (!geometry || OTHER_TYPES.includes(geometry.type)) {
+          return [];
+        }
+        throw new Error(`Unsupported GeoJSON geometry type: ${(geometry as any)?.type}`);
+    }
+  }
+
+  /**
+   * Convert a [lng, lat, elevation?] position to a GPS point
+   */
+  private static positionToPoint(position: number[], time?: string | number): TrackPoint {
+    const [lng, lat, elevation] = position;
+
+    if (typeof lat !== 'number' || typeof lng !== 'number' ||
+        lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      throw new Error(`Invalid GeoJSON position: ${JSON.stringify(position)}`);
+    }
+
+    const point: TrackPoint = { lat, lng };
+
+    if (typeof elevation === 'number') {
+      point.elevation = elevation;
+    }
+
+    if (time !== undefined && time !== null) {
+      const date = new Date(time);
+      if (!isNaN(date.getTime())) {
+        point.time = date;
+      }
+    }
+
+    return point;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * GPX parsing utilities
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { GpxData, GpxPoint, TrackPointAttributes } from '../types';
+
+const ARRAY_ELEMENTS = new Set(['trk', 'trkseg', 'trkpt', 'rte', 'rtept', 'wpt']);
+
+/**
+ * GPX utilities for reading tracks, routes and waypoints
+ */
+export class GpxUtil {
+  private static readonly parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: name => ARRAY_ELEMENTS.has(name)
+  });
+
+  /**
+   * Parse GPX document into tracks, routes and waypoints
+   */
+  static parse(gpx: string | Buffer): GpxData {
+    const xml = typeof gpx === 'string' ? gpx : gpx.toString('utf8');
+
+    let document: any;
+    try {
+      document = GpxUtil.parser.parse(xml);
+    } catch (error) {
+      throw new Error(`Invalid GPX document: ${error}`);
+    }
+
+    const root = document?.gpx;
+    if (!root || typeof root !== 'object') {
+      throw new Error('Invalid GPX document: missing <gpx> root element');
+    }
+
+    return {
+      tracks: (root.trk || []).map((trk: any) => ({
+        name: GpxUtil.parseText(trk.name),
+        segments: (trk.trkseg || []).map((seg: any) => (seg.trkpt || []).map(GpxUtil.parsePoint))
+      })),
+      routes: (root.rte || []).map((rte: any) => ({
+        name: GpxUtil.parseText(rte.name),
+        points: (rte.rtept || []).map(GpxUtil.parsePoint)
+      })),
+      waypoints: (root.wpt || []).map(GpxUtil.parsePoint)
+    };
+  }
+
+  /**
+   * Flatten GPX data into a single point sequence
+   * Track points are preferred, then route points, then waypoints
+   */
+  static toPoints(data: GpxData): GpxPoint[] {
+    const trackPoints = data.tracks.flatMap(track => track.segments.flat());
+    if (trackPoints.length > 0) {
+      return trackPoints;
+    }
+
+    const routePoints = data.routes.flatMap(route => route.points);
+    if (routePoints.length > 0) {
+      return routePoints;
+    }
+
+    return data.waypoints;
+  }
+
+  /**
+   * Split GPX data into continuous segments
+   * Every <trkseg> is a segment; without tracks every route is one, waypoints form a single segment
+   */
+  static toSegments(data: GpxData): GpxPoint[][] {
+    const trackSegments = data.tracks.flatMap(track => track.segments).filter(segment => segment.length > 0);
+    if (trackSegments.length > 0) {
+      return trackSegments;
+    }
+
+    const routeSegments = data.routes.map(route => route.points).filter(points => points.length > 0);
+    if (routeSegments.length > 0) {
+      return routeSegments;
+    }
+
+    return data.waypoints.length > 0 ? [data.waypoints] : [];
+  }
+
+  /**
+   * Parse a <trkpt>, <rtept> or <wpt> element
+   */
+  private static parsePoint(element: any): GpxPoint {
+    const lat = parseFloat(element.lat);
+    const lng = parseFloat(element.lon);
+
+    if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      throw new Error(`Invalid GPX point coordinates: lat=${element.lat}, lon=${element.lon}`);
+    }
+
+    const point: GpxPoint = { lat, lng };
+
+    const elevation = parseFloat(GpxUtil.parseText(element.ele) ?? '');
+    if (!isNaN(elevation)) {
+      point.elevation = elevation;
+    }
+
+    const time = GpxUtil.parseText(element.time);
+    if (time) {
+      const date = new Date(time);
+      if (!isNaN(date.getTime())) {
+        point.time = date;
+      }
+    }
+
+    const name = GpxUtil.parseText(element.name);
+    if (name) {
+      point.name = name;
+    }
+
+    // Vendor extensions such as Garmin TrackPointExtension (hr, cad, atemp) become attributes
+    if (element.extensions && typeof element.extensions === 'object') {
+      const attributes: TrackPointAttributes = {};
+      GpxUtil.collectExtensionValues(element.extensions, attributes);
+
+      if (Object.keys(attributes).length > 0) {
+        point.attributes = attributes;
+      }
+    }
+
+    return point;
+  }
+
+  /**
+   * Flatten leaf values of an <extensions> element into attributes keyed by element name
+   */
+  private static collectExtensionValues(element: Record<string, any>, attributes: TrackPointAttributes): void {
+    for (const [key, value] of Object.entries(element)) {
+      if (value !== null && typeof value === 'object' && !Array.isArray(value) && !('#text' in value)) {
+        GpxUtil.collectExtensionValues(value, attributes);
+        continue;
+      }
+
+      const text = GpxUtil.parseText(Array.isArray(value) ? value[0] : value);
+      if (text === undefined || text === '') {
+        continue;
+      }
+
+      const numeric = Number(text);
+      attributes[key] = isNaN(numeric) ? text : numeric;
+    }
+  }
+
+  /**
+   * Read text content of a simple element
+   */
+  private static parseText(value: any): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    // Elements with attributes are parsed as objects with a #text field
+    const text = typeof value === 'object' ? value['#text'] : value;
+    return text === undefined ? undefined : String(text).trim();
+  }
+}
@@ -57,6 +57,41 @@ export class MercatorUtil {
     return { x, y };
   }
 
+  /**
+   * Convert latitude/longitude to global pixel coordinates at the given zoom level
+   * Unlike SphericalMercator.px at integer zoom levels, the result keeps sub-pixel precision
+   */
+  static latLngToWorldPixel(latLng: LatLng, zoom: number, retina: boolean = false): PixelPoint {
+    const size = MercatorUtil.getTileSize(retina) * Math.pow(2, zoom);
+    const sinLat = Math.min(Math.max(Math.sin(latLng.lat * Math.PI / 180), -0.9999), 0.9999);
+
+    return {
+      x: (latLng.lng + 180) / 360 * size,
+      y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * size
+    };
+  }
+
+  /**
+   * Inverse of latLngToWorldPixel
+   */
+  static worldPixelToLatLng(point: PixelPoint, zoom: number, retina: boolean = false): LatLng {
+    const size = MercatorUtil.getTileSize(retina) * Math.pow(2, zoom);
+    const n = Math.PI * (1 - 2 * point.y / size);
+
+    return {
+      lat: Math.atan(Math.sinh(n)) * 180 / Math.PI,
+      lng: point.x / size * 360 - 180
+    };
+  }
+
+  /**
+   * Ground resolution in meters per map pixel at the given latitude and zoom level
+   */
+  static metersPerPixel(lat: number, zoom: number, retina: boolean = false): number {
+    const equator = 2 * Math.PI * 6378137; // Web Mercator sphere circumference in meters
+    return equator * Math.cos(lat * Math.PI / 180) / (MercatorUtil.getTileSize(retina) * Math.pow(2, zoom));
+  }
+
   /**
    * Convert tile coordinates to latitude/longitude bounds
    */
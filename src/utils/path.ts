@@ -0,0 +1,149 @@
+/**
+ * Path measurement and placement utilities
+ */
+
+import { LatLng, PixelPoint, PathPosition, MeasuredPathPosition } from '../types';
+import { GeoUtil } from './geo';
+
+/**
+ * Utilities for placing symbols along a drawn path
+ */
+export class PathUtil {
+  /**
+   * Length of a pixel path
+   */
+  static pixelLength(pixelPoints: PixelPoint[]): number {
+    let length = 0;
+    for (let i = 1; i < pixelPoints.length; i++) {
+      length += Math.hypot(pixelPoints[i].x - pixelPoints[i - 1].x, pixelPoints[i].y - pixelPoints[i - 1].y);
+    }
+    return length;
+  }
+
+  /**
+   * Cumulative geographic distance in meters at each point
+   */
+  static cumulativeDistances(gpsPoints: LatLng[]): number[] {
+    const distances = [0];
+    for (let i = 1; i < gpsPoints.length; i++) {
+      distances.push(distances[i - 1] + GeoUtil.calculateDistance(gpsPoints[i - 1], gpsPoints[i]));
+    }
+    return distances;
+  }
+
+  /**
+   * Positions at the given pixel offsets along the path
+   * @param pixelPoints - Path vertices
+   * @param offsets - Ascending offsets in pixels from the start of the path
+   */
+  static positionsAtOffsets(pixelPoints: PixelPoint[], offsets: number[]): PathPosition[] {
+    const measures = [0];
+    for (let i = 1; i < pixelPoints.length; i++) {
+      measures.push(measures[i - 1] +
+        Math.hypot(pixelPoints[i].x - pixelPoints[i - 1].x, pixelPoints[i].y - pixelPoints[i - 1].y));
+    }
+
+    return PathUtil.interpolate(pixelPoints, measures, offsets);
+  }
+
+  /**
+   * Positions at the given geographic distances along the path
+   * @param gpsPoints - Path vertices in geographic coordinates
+   * @param pixelPoints - The same vertices in pixel coordinates
+   * @param distances - Ascending distances in meters from the start of the path
+   */
+  static positionsAtDistances(gpsPoints: LatLng[], pixelPoints: PixelPoint[], distances: number[]): PathPosition[] {
+    return PathUtil.interpolate(pixelPoints, PathUtil.cumulativeDistances(gpsPoints), distances);
+  }
+
+  /**
+   * Positions every `interval` meters along consecutive segments, not counting the gaps between them
+   * @param segments - Segments in geographic coordinates
+   * @param pixelSegments - The same segments in pixel coordinates
+   * @param interval - Spacing in meters, the first position is one interval from the start
+   * @param sourceSegments - Unsimplified segments `segments` were filtered from; distances are measured along these
+   */
+  static positionsEvery(
+    segments: LatLng[][],
+    pixelSegments: PixelPoint[][],
+    interval: number,
+    sourceSegments?: LatLng[][]
+  ): MeasuredPathPosition[] {
+    const positions: MeasuredPathPosition[] = [];
+    let travelled = 0;
+    let count = 1;
+
+    segments.forEach((segment, i) => {
+      let measures = PathUtil.cumulativeDistances(segment);
+      let segmentLength = measures[measures.length - 1];
+
+      // Kept vertices take their distance along the full path, so simplification does not shorten it
+      const source = sourceSegments?.[i];
+      if (source && source !== segment) {
+        const sourceMeasures = PathUtil.cumulativeDistances(source);
+        const measureOf = new Map(source.map((point, k) => [point, sourceMeasures[k]]));
+
+        if (segment.every(point => measureOf.has(point))) {
+          measures = segment.map(point => measureOf.get(point)!);
+          segmentLength = sourceMeasures[sourceMeasures.length - 1];
+        }
+      }
+
+      const distances: number[] = [];
+
+      for (; count * interval <= travelled + segmentLength; count++) {
+        distances.push(count * interval);
+      }
+
+      if (pixelSegments[i].length >= 2) {
+        const offset = travelled;
+        positions.push(...PathUtil.interpolate(pixelSegments[i], measures, distances.map(d => d - offset))
+          .map((position, k) => ({ ...position, distance: distances[k] })));
+      }
+      travelled += segmentLength;
+    });
+
+    return positions;
+  }
+
+  /**
+   * Interpolate pixel positions where the per-vertex measure reaches each target value
+   * Targets outside the measured range are skipped
+   */
+  private static interpolate(pixelPoints: PixelPoint[], measures: number[], targets: number[]): PathPosition[] {
+    const positions: PathPosition[] = [];
+    let i = 1;
+
+    for (const target of targets) {
+      if (target < 0) {
+        continue;
+      }
+
+      while (i < pixelPoints.length && measures[i] < target) {
+        i++;
+      }
+      if (i >= pixelPoints.length) {
+        break;
+      }
+
+      const from = pixelPoints[i - 1];
+      const span = measures[i] - measures[i - 1];
+      const t = span > 0 ? (target - measures[i - 1]) / span : 0;
+
+      // Take the direction from the next vertex that does not coincide with the segment start
+      let j = i;
+      while (j < pixelPoints.length - 1 && pixelPoints[j].x === from.x && pixelPoints[j].y === from.y) {
+        j++;
+      }
+      const to = pixelPoints[j];
+
+      positions.push({
+        x: from.x + (pixelPoints[i].x - from.x) * t,
+        y: from.y + (pixelPoints[i].y - from.y) * t,
+        angle: Math.atan2(to.y - from.y, to.x - from.x)
+      });
+    }
+
+    return positions;
+  }
+}
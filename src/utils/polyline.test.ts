@@ -0,0 +1,143 @@
+import { PolylineDecodeError, PolylineUtil } from './polyline';
+import { LatLng } from '../types';
+
+const METER = 1 / 111195; // degrees of latitude per meter
+
+/**
+ * Northeast-bound track of evenly spaced points
+ */
+function track(start: LatLng, count: number, stepMeters: number): LatLng[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lat: start.lat + i * stepMeters * METER * 0.6,
+    lng: start.lng + i * stepMeters * METER * 0.8
+  }));
+}
+
+// Google's reference example: (38.5, -120.2), (40.7, -120.95), (43.252, -126.453)
+const EXAMPLE = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+
+/**
+ * Decode strictly and return the error thrown
+ */
+function decodeError(polyline: string, precision?: number): PolylineDecodeError {
+  try {
+    PolylineUtil.decodeStrict(polyline, precision);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PolylineDecodeError);
+    return error as PolylineDecodeError;
+  }
+  throw new Error(`Expected ${JSON.stringify(polyline)} to fail decoding`);
+}
+
+describe('PolylineUtil.decodeStrict', () => {
+  it('decodes a valid polyline', () => {
+    const points = PolylineUtil.decodeStrict(EXAMPLE);
+
+    expect(points).toHaveLength(3);
+    expect(points[2].lat).toBeCloseTo(43.252, 5);
+    expect(points[2].lng).toBeCloseTo(-126.453, 5);
+  });
+
+  it('rejects an empty polyline', () => {
+    expect(decodeError('')).toMatchObject({ reason: 'empty', offset: 0, pointIndex: 0 });
+  });
+
+  it('reports a chunk cut off mid-value', () => {
+    expect(decodeError(EXAMPLE.slice(0, -1))).toMatchObject({ reason: 'truncated', offset: 26, pointIndex: 2 });
+  });
+
+  it('reports a point without longitude', () => {
+    expect(decodeError(EXAMPLE.slice(0, 5))).toMatchObject({ reason: 'truncated', offset: 5, pointIndex: 0 });
+    expect(decodeError(EXAMPLE + '?')).toMatchObject({ reason: 'truncated', offset: 28, pointIndex: 3 });
+  });
+
+  it('reports the offset of an invalid character', () => {
+    const polyline = EXAMPLE.slice(0, 12) + ' ' + EXAMPLE.slice(13);
+
+    expect(decodeError(polyline)).toMatchObject({ reason: 'invalid-character', offset: 12, pointIndex: 1 });
+  });
+
+  it('reports the offset of the first point out of range', () => {
+    const first = PolylineUtil.encode([{ lat: 5.5, lng: 10.4 }]);
+    const polyline = PolylineUtil.encode([{ lat: 5.5, lng: 10.4 }, { lat: 95, lng: 10.4 }, { lat: 96, lng: 10.4 }]);
+
+    expect(decodeError(polyline)).toMatchObject({ reason: 'out-of-range', offset: first.length, pointIndex: 1 });
+  });
+
+  it('hints at the detected precision when decoding with the wrong one', () => {
+    const polyline = PolylineUtil.encode(track({ lat: 60.1, lng: 24.9 }, 10, 10), 6);
+    const error = decodeError(polyline, 5);
+
+    expect(error).toMatchObject({ reason: 'out-of-range', offset: 0, pointIndex: 0 });
+    expect(error.message).toMatch(/looks like precision 6/);
+    expect(PolylineUtil.decodeStrict(polyline, 6)).toHaveLength(10);
+  });
+});
+
+describe('PolylineUtil.detectPrecision', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('detects precision 6 near the equator where precision 5 also decodes validly', () => {
+    const polyline = PolylineUtil.encode(track({ lat: 5.5, lng: 10.4 }, 40, 8), 6);
+
+    expect(PolylineUtil.isInRange(PolylineUtil.decode(polyline, 5))).toBe(true);
+    expect(PolylineUtil.detectPrecision(polyline)).toBe(6);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('keeps precision 5 when higher precisions also decode validly', () => {
+    const polyline = PolylineUtil.encode(track({ lat: 51.5, lng: -0.12 }, 40, 12), 5);
+
+    expect(PolylineUtil.detectPrecision(polyline)).toBe(5);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('detects precision 7', () => {
+    const polyline = PolylineUtil.encode(track({ lat: 12.3, lng: 45.6 }, 40, 10), 7);
+
+    expect(PolylineUtil.detectPrecision(polyline)).toBe(7);
+  });
+
+  it('detects precision 6 where precision 5 decodes out of range', () => {
+    const polyline = PolylineUtil.encode(track({ lat: 60.1, lng: 24.9 }, 40, 10), 6);
+
+    expect(PolylineUtil.detectPrecision(polyline)).toBe(6);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('warns when two precisions are nearly as plausible', () => {
+    // 31 m steps sit halfway (in decades) between 3.1 m and 31 m
+    const polyline = PolylineUtil.encode(track({ lat: 5.5, lng: 10.4 }, 40, 31.6), 6);
+
+    expect([5, 6]).toContain(PolylineUtil.detectPrecision(polyline));
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/ambiguous/);
+  });
+
+  it('falls back to the lowest valid precision for a single point', () => {
+    const polyline = PolylineUtil.encode([{ lat: 5.5, lng: 10.4 }], 6);
+
+    expect(PolylineUtil.detectPrecision(polyline)).toBe(5);
+  });
+
+  it('only considers the given candidates', () => {
+    const polyline = PolylineUtil.encode(track({ lat: 60.1, lng: 24.9 }, 40, 10), 6);
+
+    expect(PolylineUtil.detectPrecision(polyline, [6, 7])).toBe(6);
+    expect(PolylineUtil.detectPrecision(polyline, [5])).toBeUndefined();
+  });
+
+  it('returns undefined when no candidate decodes validly', () => {
+    const polyline = PolylineUtil.encode([{ lat: 89, lng: 179 }, { lat: 89.5, lng: 179.5 }], 8);
+
+    expect(PolylineUtil.detectPrecision(polyline)).toBeUndefined();
+  });
+});
@@ -3,72 +3,185 @@
  */
 
 import { LatLng } from '../types';
+import { GeoUtil } from './geo';
+
+// Median distance in meters between consecutive points of a typical track, used to rank precisions
+const TYPICAL_STEP = 10;
+
+// Decades of median step length within which two candidate precisions are considered equally plausible
+const AMBIGUOUS_MARGIN = 0.3;
+
+export type PolylineErrorReason = 'empty' | 'invalid-character' | 'truncated' | 'out-of-range';
+
+/**
+ * Error thrown when a polyline cannot be decoded into valid coordinates
+ */
+export class PolylineDecodeError extends Error {
+  constructor(
+    message: string,
+    readonly reason: PolylineErrorReason,
+    readonly offset: number,     // character offset of the problem
+    readonly pointIndex: number  // index of the point being decoded
+  ) {
+    super(message);
+    this.name = 'PolylineDecodeError';
+  }
+}
 
 /**
  * Polyline utilities for encoding and decoding GPS trajectories
  */
 export class PolylineUtil {
+  static readonly DEFAULT_PRECISION = 5;
+
   /**
    * Decode polyline string to GPS points
+   * Throws PolylineDecodeError on characters outside the 63-126 range and truncated chunks
+   * @param precision - Number of decimal digits encoded (5 for Google, 6 for OSRM/Valhalla)
+   */
+  static decode(polyline: string, precision: number = PolylineUtil.DEFAULT_PRECISION): LatLng[] {
+    return PolylineUtil.decodeWithOffsets(polyline, precision).points;
+  }
+
+  /**
+   * Decode polyline string and additionally require every point to be a valid lat/lng coordinate
+   * Throws PolylineDecodeError carrying the character offset and point index of the first problem
+   */
+  static decodeStrict(polyline: string, precision: number = PolylineUtil.DEFAULT_PRECISION): LatLng[] {
+    if (!polyline || typeof polyline !== 'string') {
+      throw new PolylineDecodeError('Polyline is empty', 'empty', 0, 0);
+    }
+
+    const { points, offsets } = PolylineUtil.decodeWithOffsets(polyline, precision);
+
+    for (let i = 0; i < points.length; i++) {
+      if (!PolylineUtil.isInRange([points[i]])) {
+        const detected = PolylineUtil.rankPrecisions(polyline, [5, 6, 7])[0]?.precision;
+        const hint = detected !== undefined && detected !== precision
+          ? ` (the polyline looks like precision ${detected})`
+          : '';
+
+        throw new PolylineDecodeError(
+          `Point ${i} at offset ${offsets[i]} is out of range: lat=${points[i].lat}, lng=${points[i].lng}${hint}`,
+          'out-of-range',
+          offsets[i],
+          i
+        );
+      }
+    }
+
+    return points;
+  }
+
+  /**
+   * Decode polyline string, recording the character offset where each point starts
    */
-  static decode(polyline: string): LatLng[] {
+  private static decodeWithOffsets(
+    polyline: string,
+    precision: number
+  ): { points: LatLng[]; offsets: number[] } {
+    PolylineUtil.validatePrecision(precision);
+    const factor = Math.pow(10, -precision);
     const points: LatLng[] = [];
+    const offsets: number[] = [];
     let index = 0;
     let lat = 0;
     let lng = 0;
 
     while (index < polyline.length) {
-      let b: number;
-      let shift = 0;
-      let result = 0;
+      const pointIndex = points.length;
+      offsets.push(index);
 
       // Decode latitude
-      do {
-        b = polyline.charCodeAt(index++) - 63;
-        result |= (b & 0x1f) << shift;
-        shift += 5;
-      } while (b >= 0x20);
+      const deltaLat = PolylineUtil.decodeValue(polyline, index, pointIndex);
+      lat += deltaLat.value;
+      index = deltaLat.next;
 
-      const deltaLat = ((result & 1) !== 0 ? ~(result >> 1) : (result >> 1));
-      lat += deltaLat;
-
-      shift = 0;
-      result = 0;
+      if (index >= polyline.length) {
+        throw new PolylineDecodeError(
+          `Truncated polyline: point ${pointIndex} at offset ${offsets[pointIndex]} has no longitude`,
+          'truncated',
+          index,
+          pointIndex
+        );
+      }
 
       // Decode longitude
-      do {
-        b = polyline.charCodeAt(index++) - 63;
-        result |= (b & 0x1f) << shift;
-        shift += 5;
-      } while (b >= 0x20);
-
-      const deltaLng = ((result & 1) !== 0 ? ~(result >> 1) : (result >> 1));
-      lng += deltaLng;
+      const deltaLng = PolylineUtil.decodeValue(polyline, index, pointIndex);
+      lng += deltaLng.value;
+      index = deltaLng.next;
 
       points.push({
-        lat: lat * 1e-5,
-        lng: lng * 1e-5
+        lat: lat * factor,
+        lng: lng * factor
       });
     }
 
-    return points;
+    return { points, offsets };
+  }
+
+  /**
+   * Decode a single signed value starting at the given offset
+   * Uses arithmetic instead of 32-bit bitwise operations so high precisions do not overflow
+   */
+  private static decodeValue(
+    polyline: string,
+    start: number,
+    pointIndex: number
+  ): { value: number; next: number } {
+    let index = start;
+    let result = 0;
+    let multiplier = 1;
+    let b: number;
+
+    do {
+      if (index >= polyline.length) {
+        throw new PolylineDecodeError(
+          `Truncated polyline: chunk starting at offset ${start} is incomplete`,
+          'truncated',
+          index,
+          pointIndex
+        );
+      }
+
+      const code = polyline.charCodeAt(index);
+      if (code < 63 || code > 126) {
+        throw new PolylineDecodeError(
+          `Invalid character '${polyline[index]}' at offset ${index}`,
+          'invalid-character',
+          index,
+          pointIndex
+        );
+      }
+
+      b = code - 63;
+      result += (b & 0x1f) * multiplier;
+      multiplier *= 32;
+      index++;
+    } while (b >= 0x20);
+
+    const value = result % 2 !== 0 ? -(result + 1) / 2 : result / 2;
+    return { value, next: index };
   }
 
   /**
    * Encode GPS points to polyline string
    */
-  static encode(points: LatLng[]): string {
+  static encode(points: LatLng[], precision: number = PolylineUtil.DEFAULT_PRECISION): string {
     if (points.length === 0) {
       return '';
     }
 
+    PolylineUtil.validatePrecision(precision);
+    const scale = Math.pow(10, precision);
+
     let polyline = '';
     let prevLat = 0;
     let prevLng = 0;
 
     for (const point of points) {
-      const lat = Math.round(point.lat * 1e5);
-      const lng = Math.round(point.lng * 1e5);
+      const lat = Math.round(point.lat * scale);
+      const lng = Math.round(point.lng * scale);
 
       const deltaLat = lat - prevLat;
       const deltaLng = lng - prevLng;
@@ -87,12 +200,13 @@ export class PolylineUtil {
    * Encode a single value for polyline
    */
   private static encodeValue(value: number): string {
-    value = value < 0 ? ~(value << 1) : (value << 1);
+    // Zig-zag encode with arithmetic so values beyond 32 bits (high precisions) do not overflow
+    value = value < 0 ? -value * 2 - 1 : value * 2;
     let encoded = '';
 
     while (value >= 0x20) {
-      encoded += String.fromCharCode((0x20 | (value & 0x1f)) + 63);
-      value >>= 5;
+      encoded += String.fromCharCode((0x20 | (value % 32)) + 63);
+      value = Math.floor(value / 32);
     }
 
     encoded += String.fromCharCode(value + 63);
@@ -102,16 +216,81 @@ export class PolylineUtil {
   /**
    * Validate polyline string format
    */
-  static validate(polyline: string): boolean {
-    if (!polyline || typeof polyline !== 'string') {
-      return false;
-    }
-
+  static validate(polyline: string, precision: number = PolylineUtil.DEFAULT_PRECISION): boolean {
     try {
-      const points = PolylineUtil.decode(polyline);
+      const points = PolylineUtil.decodeStrict(polyline, precision);
       return points.length > 0;
     } catch (error) {
       return false;
     }
   }
+
+  /**
+   * Guess polyline precision from the candidates whose decoded points are all valid coordinates
+   * Each extra digit shrinks the decoded track tenfold, so when several candidates are valid the one
+   * whose median step between points is closest to a typical GPS track wins; warns when that is a close call
+   * Returns undefined when no candidate yields valid coordinates
+   */
+  static detectPrecision(polyline: string, candidates: number[] = [5, 6, 7]): number | undefined {
+    const ranked = PolylineUtil.rankPrecisions(polyline, candidates);
+    if (ranked.length > 1 && ranked[1].score - ranked[0].score < AMBIGUOUS_MARGIN) {
+      console.warn(
+        `Polyline precision is ambiguous, using ${ranked[0].precision} over ${ranked[1].precision}; ` +
+        'set polylinePrecision explicitly if the track looks scaled'
+      );
+    }
+
+    return ranked[0]?.precision;
+  }
+
+  /**
+   * Candidate precisions that decode to valid coordinates, most plausible first
+   * Score is the distance in decades between the median step and TYPICAL_STEP; ties go to the lower precision
+   */
+  private static rankPrecisions(polyline: string, candidates: number[]): { precision: number; score: number }[] {
+    const ranked: { precision: number; score: number }[] = [];
+
+    for (const precision of candidates) {
+      const points = PolylineUtil.decode(polyline, precision);
+      if (!PolylineUtil.isInRange(points)) {
+        continue;
+      }
+
+      const steps: number[] = [];
+      for (let i = 1; i < points.length; i++) {
+        const step = GeoUtil.calculateDistance(points[i - 1], points[i]);
+        if (step > 0) {
+          steps.push(step);
+        }
+      }
+      steps.sort((a, b) => a - b);
+
+      // Without movement there is nothing to judge by, so every candidate scores the same
+      const score = steps.length > 0
+        ? Math.abs(Math.log10(steps[Math.floor(steps.length / 2)] / TYPICAL_STEP))
+        : Infinity;
+      ranked.push({ precision, score });
+    }
+
+    return ranked.sort((a, b) => a.score - b.score || a.precision - b.precision);
+  }
+
+  /**
+   * Check that all points are valid latitude/longitude values
+   */
+  static isInRange(points: LatLng[]): boolean {
+    return points.every(point =>
+      point.lat >= -90 && point.lat <= 90 &&
+      point.lng >= -180 && point.lng <= 180
+    );
+  }
+
+  /**
+   * Validate polyline precision value
+   */
+  static validatePrecision(precision: number): void {
+    if (!Number.isInteger(precision) || precision < 1 || precision > 10) {
+      throw new Error(`Polyline precision must be an integer between 1 and 10, got: ${precision}`);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+/**
+ * Activity statistics utilities
+ */
+
+import { ActivityStats, TrackPoint } from '../types';
+import { GeoUtil } from './geo';
+
+/**
+ * Activity statistics utilities
+ */
+export class StatsUtil {
+  /**
+   * Compute distance, duration, pace, speed and elevation gain over track segments
+   * Distance, duration and climbs are summed per segment, so gaps between segments do not count
+   */
+  static compute(segments: TrackPoint[][]): ActivityStats {
+    let distance = 0;
+    let duration: number | undefined;
+    let elevationGain: number | undefined;
+    let startTime: Date | undefined;
+
+    for (const segment of segments) {
+      let first = Infinity;
+      let last = -Infinity;
+
+      for (let i = 0; i < segment.length; i++) {
+        const time = segment[i].time?.getTime();
+        if (time !== undefined) {
+          first = Math.min(first, time);
+          last = Math.max(last, time);
+        }
+
+        if (i === 0) {
+          continue;
+        }
+
+        distance += GeoUtil.calculateDistance(segment[i - 1], segment[i]);
+
+        const from = segment[i - 1].elevation;
+        const to = segment[i].elevation;
+        if (from !== undefined && to !== undefined) {
+          elevationGain = (elevationGain ?? 0) + Math.max(to - from, 0);
+        }
+      }
+
+      if (first <= last) {
+        duration = (duration ?? 0) + (last - first) / 1000;
+        if (!startTime || first < startTime.getTime()) {
+          startTime = new Date(first);
+        }
+      }
+    }
+
+    const stats: ActivityStats = { distance };
+    if (duration !== undefined) {
+      stats.duration = duration;
+      if (duration > 0 && distance > 0) {
+        stats.pace = duration / (distance / 1000);
+        stats.speed = distance / duration;
+      }
+    }
+    if (elevationGain !== undefined) {
+      stats.elevationGain = elevationGain;
+    }
+    if (startTime) {
+      stats.startTime = startTime;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Format a duration in seconds as h:mm:ss, or m:ss under an hour
+   */
+  static formatDuration(seconds: number): string {
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = String(total % 60).padStart(2, '0');
+
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+  }
+}